@@ -20,11 +20,19 @@ export async function GET(request: NextRequest) {
           {
             OR: [
               { lastSyncedAt: null },
+              // Left for us by a push notification that could not replay history
+              { syncStatus: "PENDING" },
               { lastSyncedAt: { lt: twentyThreeHoursAgo } },
             ],
           },
-          // Not currently syncing
-          { syncStatus: { not: "SYNCING" } },
+          // Not currently syncing, or left SYNCING by a sync that was cut off
+          {
+            OR: [
+              { syncStatus: { not: "SYNCING" } },
+              { syncLeaseExpiresAt: null },
+              { syncLeaseExpiresAt: { lt: new Date() } },
+            ],
+          },
           // Has active sessions (user has logged in recently)
           {
             sessions: {
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { GmailSyncService } from "~/server/services/gmail-sync";
+
+export const maxDuration = 60; // Maximum duration for Vercel
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!env.GMAIL_PUBSUB_TOPIC) {
+      return NextResponse.json({ message: "Gmail push notifications are not configured" });
+    }
+
+    // Gmail watches last 7 days; renew anything lapsing within the next 2 days
+    const renewBefore = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+
+    const usersToWatch = await db.user.findMany({
+      where: {
+        OR: [
+          { watchExpiresAt: null },
+          { watchExpiresAt: { lt: renewBefore } },
+        ],
+        accounts: {
+          some: {
+            provider: "google",
+            refresh_token: { not: null },
+          },
+        },
+      },
+      select: { id: true },
+      orderBy: { watchExpiresAt: { sort: "asc", nulls: "first" } },
+      take: 50,
+    });
+
+    const watchResults = [];
+
+    for (const user of usersToWatch) {
+      try {
+        const syncService = await GmailSyncService.create(user.id);
+        if (syncService) {
+          const watchExpiresAt = await syncService.startWatch();
+          watchResults.push({ userId: user.id, status: "renewed", watchExpiresAt });
+        } else {
+          watchResults.push({ userId: user.id, status: "no_token" });
+        }
+      } catch (error) {
+        console.error(`Failed to renew Gmail watch for user ${user.id}:`, error);
+        watchResults.push({ 
+          userId: user.id, 
+          status: "error", 
+          error: error instanceof Error ? error.message : "Unknown error" 
+        });
+      }
+    }
+
+    const renewedCount = watchResults.filter(r => r.status === "renewed").length;
+
+    return NextResponse.json({
+      message: `Gmail watch renewed for ${renewedCount} users`,
+      results: watchResults,
+    });
+  } catch (error) {
+    console.error("Cron watch renewal failed:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { fetchRemoteImage } from "~/server/remote-images";
+
+/**
+ * Serves remote images from message bodies so senders never see the reader's
+ * IP address, cookies or referrer. Only signed-in users may use it.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = request.nextUrl.searchParams.get("url");
+  if (!url) {
+    return NextResponse.json({ error: "Missing url" }, { status: 400 });
+  }
+
+  try {
+    const image = await fetchRemoteImage(url);
+
+    return new NextResponse(new Uint8Array(image.body), {
+      headers: {
+        "Content-Type": image.contentType,
+        "Cache-Control": "private, max-age=86400",
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+        "Referrer-Policy": "no-referrer",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error(`Image proxy failed for ${url}:`, error);
+    return NextResponse.json({ error: "Failed to fetch image" }, { status: 502 });
+  }
+}
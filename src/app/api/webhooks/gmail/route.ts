@@ -0,0 +1,106 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { GmailSyncService, type SyncMailboxResult } from "~/server/services/gmail-sync";
+
+export const maxDuration = 60; // Maximum duration for Vercel
+
+interface PubSubPushBody {
+  message?: {
+    data?: string;
+    messageId?: string;
+    publishTime?: string;
+  };
+  subscription?: string;
+}
+
+interface GmailNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+function isAuthorized(request: NextRequest): boolean {
+  if (!env.GMAIL_WEBHOOK_SECRET) return false;
+
+  // Pub/Sub push endpoints carry the secret as a query parameter; a bearer
+  // token is accepted as well for manual testing
+  const authHeader = request.headers.get("authorization");
+  const provided = request.nextUrl.searchParams.get("token")
+    ?? (authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null);
+  if (!provided) return false;
+
+  const expected = Buffer.from(env.GMAIL_WEBHOOK_SECRET);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function parseNotification(body: PubSubPushBody): GmailNotification | null {
+  if (!body.message?.data) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body.message.data, "base64").toString("utf-8"));
+    const historyId = String(payload?.historyId ?? "");
+    if (typeof payload?.emailAddress !== "string" || !/^\d+$/.test(historyId)) return null;
+    return { emailAddress: payload.emailAddress, historyId };
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json() as PubSubPushBody;
+    const notification = parseNotification(body);
+
+    // Acknowledge malformed messages so Pub/Sub does not keep redelivering them
+    if (!notification) {
+      console.warn("Ignoring malformed Gmail push notification", body.message?.messageId);
+      return NextResponse.json({ status: "ignored" });
+    }
+
+    const user = await db.user.findUnique({
+      where: { email: notification.emailAddress.toLowerCase() },
+      select: { id: true, historyId: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ status: "unknown_user" });
+    }
+
+    // Notifications can arrive late or out of order; skip ones we already covered
+    if (user.historyId && BigInt(notification.historyId) <= BigInt(user.historyId)) {
+      return NextResponse.json({ status: "up_to_date" });
+    }
+
+    const syncService = await GmailSyncService.create(user.id);
+    if (!syncService) {
+      return NextResponse.json({ status: "no_token" });
+    }
+
+    console.log(`📬 Gmail push notification for user ${user.id} (historyId ${notification.historyId})`);
+
+    // Only history is replayed here; a full sync is left to the cron job. When a
+    // sync is already running it picks up the change, or the next notification will
+    let result: SyncMailboxResult;
+    try {
+      result = await syncService.syncMailbox("WEBHOOK");
+    } catch (error) {
+      // Already recorded on the sync job; acknowledge so Pub/Sub does not retry in a loop
+      console.error(`Webhook sync failed for user ${user.id}:`, error);
+      return NextResponse.json({ status: "sync_failed" });
+    }
+
+    return NextResponse.json({ status: result });
+  } catch (error) {
+    console.error("Gmail webhook failed:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { 
   SearchIcon, 
@@ -15,25 +15,31 @@ import {
   HelpCircleIcon
 } from "lucide-react";
 import { cn } from "~/lib/utils";
+import {
+  formatSearchQuery,
+  parseAdvancedSearchFields,
+  type AdvancedSearchFields,
+} from "~/lib/search-query";
 
 interface AdvancedSearchProps {
   isOpen: boolean;
   onClose: () => void;
   initialQuery?: string;
+  onSearch?: (query: string) => void; // Receives the form as search box syntax
 }
 
-export function AdvancedSearch({ isOpen, onClose, initialQuery = "" }: AdvancedSearchProps) {
+export function AdvancedSearch({ isOpen, onClose, initialQuery = "", onSearch }: AdvancedSearchProps) {
   const router = useRouter();
   
   // Text search fields
   const [subject, setSubject] = useState("");
   const [from, setFrom] = useState("");
   const [to, setTo] = useState("");
-  const [content, setContent] = useState(initialQuery);
+  const [content, setContent] = useState("");
   const [attachmentName, setAttachmentName] = useState("");
   
   // Date filters
-  const [dateRange, setDateRange] = useState<string>("");
+  const [dateRange, setDateRange] = useState<AdvancedSearchFields["dateRange"]>("");
   const [dateAfter, setDateAfter] = useState("");
   const [dateBefore, setDateBefore] = useState("");
   
@@ -43,37 +49,43 @@ export function AdvancedSearch({ isOpen, onClose, initialQuery = "" }: AdvancedS
   const [isImportant, setIsImportant] = useState<boolean | undefined>(undefined);
   const [isUnread, setIsUnread] = useState<boolean | undefined>(undefined);
   
-  
+  // Opening the form fills it from whatever is in the search box
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fields = parseAdvancedSearchFields(initialQuery);
+    setSubject(fields.subject);
+    setFrom(fields.from);
+    setTo(fields.to);
+    setContent(fields.content);
+    setAttachmentName(fields.attachmentName);
+    setDateRange(fields.dateRange);
+    setDateAfter(fields.dateAfter);
+    setDateBefore(fields.dateBefore);
+    setHasAttachments(fields.hasAttachments || undefined);
+    setIsStarred(fields.isStarred || undefined);
+    setIsImportant(fields.isImportant || undefined);
+    setIsUnread(fields.isUnread || undefined);
+  }, [isOpen, initialQuery]);
 
   const handleSearch = () => {
-    const params = new URLSearchParams();
-    
-    // Build advanced search object
-    const advancedSearch: any = {};
-    
-    if (subject) advancedSearch.subject = subject;
-    if (from) advancedSearch.from = from;
-    if (to) advancedSearch.to = to;
-    if (content) advancedSearch.content = content;
-    if (attachmentName) advancedSearch.attachmentName = attachmentName;
-    
-    if (dateRange) advancedSearch.dateRange = dateRange;
-    if (dateAfter) advancedSearch.dateAfter = dateAfter;
-    if (dateBefore) advancedSearch.dateBefore = dateBefore;
-    
-    if (hasAttachments !== undefined) advancedSearch.hasAttachments = hasAttachments;
-    if (isStarred !== undefined) advancedSearch.isStarred = isStarred;
-    if (isImportant !== undefined) advancedSearch.isImportant = isImportant;
-    if (isUnread !== undefined) advancedSearch.isUnread = isUnread;
-    
-    // Only add advanced search params if there are any filters
-    if (Object.keys(advancedSearch).length > 0) {
-      params.set("advanced", JSON.stringify(advancedSearch));
-      router.push(`/dashboard/search?${params.toString()}`);
-    } else {
-      // If no filters, just go to simple search page without advanced params
-      router.push(`/dashboard/search`);
-    }
+    const query = formatSearchQuery({
+      subject,
+      from,
+      to,
+      content,
+      attachmentName,
+      dateRange,
+      dateAfter,
+      dateBefore,
+      hasAttachments: hasAttachments === true,
+      isStarred: isStarred === true,
+      isImportant: isImportant === true,
+      isUnread: isUnread === true,
+    });
+
+    onSearch?.(query);
+    router.push(query ? `/dashboard/search?q=${encodeURIComponent(query)}` : `/dashboard/search`);
     onClose();
   };
 
@@ -151,7 +163,7 @@ export function AdvancedSearch({ isOpen, onClose, initialQuery = "" }: AdvancedS
                     type="text"
                     value={content}
                     onChange={(e) => setContent(e.target.value)}
-                    placeholder="Search in message body"
+                    placeholder='Words, "phrases" or -excluded'
                     className="raycast-input w-full"
                   />
                 </div>
@@ -187,7 +199,7 @@ export function AdvancedSearch({ isOpen, onClose, initialQuery = "" }: AdvancedS
                   <label className="block text-xs mb-1" style={{ color: 'var(--color-raycast-text-tertiary)' }}>Quick Range</label>
                   <select
                     value={dateRange}
-                    onChange={(e) => setDateRange(e.target.value)}
+                    onChange={(e) => setDateRange(e.target.value as AdvancedSearchFields["dateRange"])}
                     className="raycast-input w-full"
                   >
                     <option value="">Any time</option>
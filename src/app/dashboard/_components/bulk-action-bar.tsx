@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  ArchiveIcon,
+  MailIcon,
+  MailOpenIcon,
+  MinusIcon,
+  PlusIcon,
+  SquareCheckIcon,
+  SquareIcon,
+  SquareMinusIcon,
+  StarIcon,
+  StarOffIcon,
+  TagIcon,
+  TrashIcon,
+} from "lucide-react";
+import { api, type RouterInputs } from "~/trpc/react";
+
+export type BatchAction = RouterInputs["gmail"]["batchUpdateThreads"]["action"];
+
+export interface BatchProgress {
+  description: string;
+  done: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  // How many of the loaded threads are selected
+  viewSelection: "none" | "some" | "all";
+  selectedCount: number;
+  progress: BatchProgress | null;
+  onToggleSelectAll: () => void;
+  onAction: (action: BatchAction, description: string) => void;
+}
+
+export function BulkActionBar({ viewSelection, selectedCount, progress, onToggleSelectAll, onAction }: BulkActionBarProps) {
+  const SelectIcon = viewSelection === "all" ? SquareCheckIcon : viewSelection === "some" ? SquareMinusIcon : SquareIcon;
+  const isRunning = progress !== null;
+
+  const actions: Array<{ action: BatchAction; description: string; title: string; icon: typeof MailIcon }> = [
+    { action: { type: "markRead" }, description: "Marking as read", title: "Mark as read", icon: MailOpenIcon },
+    { action: { type: "markUnread" }, description: "Marking as unread", title: "Mark as unread", icon: MailIcon },
+    { action: { type: "star" }, description: "Starring", title: "Star", icon: StarIcon },
+    { action: { type: "unstar" }, description: "Removing stars", title: "Remove star", icon: StarOffIcon },
+    { action: { type: "archive" }, description: "Archiving", title: "Archive", icon: ArchiveIcon },
+    { action: { type: "trash" }, description: "Moving to trash", title: "Move to trash", icon: TrashIcon },
+  ];
+
+  return (
+    <div
+      className="flex items-center gap-3 px-6 py-2 text-sm"
+      style={{
+        borderBottom: '1px solid var(--color-raycast-border-light)',
+        color: 'var(--color-raycast-text-secondary)',
+      }}
+    >
+      <button
+        onClick={onToggleSelectAll}
+        disabled={isRunning}
+        className="p-1 rounded-md transition-colors hover:bg-gray-100 disabled:opacity-50"
+        title={viewSelection === "none" ? "Select all" : "Clear selection"}
+      >
+        <SelectIcon className="w-4 h-4" />
+      </button>
+
+      {progress ? (
+        <div className="flex flex-1 items-center gap-3">
+          <span className="whitespace-nowrap">
+            {progress.description}... {progress.done.toLocaleString()} of {progress.total.toLocaleString()}
+          </span>
+          <div className="h-1.5 flex-1 max-w-xs rounded-full overflow-hidden" style={{ backgroundColor: 'var(--color-raycast-bg-tertiary)' }}>
+            <div
+              className="h-full transition-all"
+              style={{
+                width: `${(progress.done / progress.total) * 100}%`,
+                backgroundColor: 'var(--color-raycast-accent)',
+              }}
+            />
+          </div>
+        </div>
+      ) : selectedCount > 0 ? (
+        <>
+          <span className="font-medium" style={{ color: 'var(--color-raycast-text)' }}>
+            {selectedCount.toLocaleString()} selected
+          </span>
+          <div className="flex items-center gap-1">
+            {actions.map(({ action, description, title, icon: Icon }) => (
+              <button
+                key={action.type}
+                onClick={() => onAction(action, description)}
+                className="p-1.5 rounded-md transition-colors hover:bg-gray-100"
+                title={title}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+            <BulkLabelMenu onAction={onAction} />
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function BulkLabelMenu({ onAction }: { onAction: BulkActionBarProps["onAction"] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data: labels } = api.gmail.getLabels.useQuery();
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const userLabels = (labels ?? [])
+    .filter(label => label.type === "USER")
+    .filter(label => label.name.toLowerCase().includes(filter.toLowerCase()));
+
+  const handleAction = (action: BatchAction, description: string) => {
+    setIsOpen(false);
+    onAction(action, description);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 rounded-md transition-colors hover:bg-gray-100"
+        title="Labels"
+      >
+        <TagIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="raycast-card absolute left-0 top-full mt-2 w-64 z-20 p-2 space-y-1" style={{ backgroundColor: 'var(--color-raycast-surface)' }}>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter labels"
+            className="raycast-input w-full text-sm"
+            autoFocus
+          />
+          <div className="max-h-64 overflow-y-auto">
+            {userLabels.length === 0 ? (
+              <div className="px-2 py-3 text-sm" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                No labels found
+              </div>
+            ) : (
+              userLabels.map(label => (
+                <div key={label.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-gray-50">
+                  <TagIcon className="w-4 h-4 flex-shrink-0" style={{ color: label.color ?? undefined }} />
+                  <span className="flex-1 text-sm truncate">{label.name}</span>
+                  <button
+                    onClick={() => handleAction({ type: "addLabel", labelId: label.id }, `Applying "${label.name}"`)}
+                    className="p-0.5"
+                    title={`Apply "${label.name}"`}
+                  >
+                    <PlusIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleAction({ type: "removeLabel", labelId: label.id }, `Removing "${label.name}"`)}
+                    className="p-0.5"
+                    title={`Remove "${label.name}"`}
+                  >
+                    <MinusIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
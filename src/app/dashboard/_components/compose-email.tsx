@@ -3,8 +3,18 @@
 import { useState, useRef, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { api } from "~/trpc/react";
-import { SendIcon, PaperclipIcon, SparklesIcon, XIcon, ArrowLeftIcon } from "lucide-react";
-import { cn } from "~/lib/utils";
+import { SendIcon, PaperclipIcon, SparklesIcon, XIcon, ArrowLeftIcon, Undo2Icon } from "lucide-react";
+import { cn, readFileAsBase64 } from "~/lib/utils";
+import { textToHtml } from "~/lib/html";
+import { applySignature, getComposerBody } from "~/lib/signature";
+import { useDraftAutosave, type DraftAttachment } from "~/hooks/use-draft-autosave";
+import { useShortcuts } from "./keyboard-shortcuts";
+import { RichTextEditor } from "./rich-text-editor";
+import { SignaturePicker } from "./signature-picker";
+
+// Splits a comma separated recipient field, keeping whatever the user typed
+const splitRecipients = (value: string) =>
+  value.split(",").map(e => e.trim()).filter(e => e.length > 0);
 
 export function ComposeEmail() {
   const router = useRouter();
@@ -13,69 +23,114 @@ export function ComposeEmail() {
   const [cc, setCc] = useState("");
   const [bcc, setBcc] = useState("");
   const [subject, setSubject] = useState("");
-  const [content, setContent] = useState("");
-  const [attachments, setAttachments] = useState<File[]>([]);
-  const [uploadedAttachments, setUploadedAttachments] = useState<{id: string, s3Key: string, filename: string}[]>([]);
+  const [html, setHtml] = useState("");
+  const [signatureId, setSignatureId] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<DraftAttachment[]>([]);
   const [showCcBcc, setShowCcBcc] = useState(false);
-  const [isForward, setIsForward] = useState(false);
+  const [omittedAttachmentIds, setOmittedAttachmentIds] = useState<string[]>([]);
+  const [includeOriginal, setIncludeOriginal] = useState(false);
+  const [loadedDraftId, setLoadedDraftId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Get original message content for forwarding
-  const originalMessageId = searchParams.get('originalMessageId');
-  const { data: originalContent } = api.gmail.getMessageContent.useQuery(
+  // Keeps list and thread shortcuts from firing while composing
+  useShortcuts("composer", {});
+
+  // Reopen a saved draft from the Drafts page
+  const draftId = searchParams.get('draftId');
+  const { data: savedDraft } = api.gmail.getDraft.useQuery(
+    { draftId: draftId! },
+    { enabled: !!draftId }
+  );
+
+  useEffect(() => {
+    if (!savedDraft || savedDraft.id === loadedDraftId) return;
+
+    setTo(savedDraft.to.join(", "));
+    setCc(savedDraft.cc.join(", "));
+    setBcc(savedDraft.bcc.join(", "));
+    setShowCcBcc(savedDraft.cc.length > 0 || savedDraft.bcc.length > 0);
+    setSubject(savedDraft.subject);
+    setHtml(savedDraft.htmlContent || textToHtml(savedDraft.textContent));
+    setAttachments(savedDraft.attachments);
+    setLoadedDraftId(savedDraft.id);
+  }, [savedDraft, loadedDraftId]);
+
+  // The signature alone doesn't make a message worth sending or saving
+  const body = getComposerBody(html);
+  const hasBody = !!body.text.trim() || body.hasImages;
+
+  const draft = useDraftAutosave({
+    to: splitRecipients(to),
+    cc: splitRecipients(cc),
+    bcc: splitRecipients(bcc),
+    subject,
+    textContent: body.text,
+    htmlContent: html,
+    attachmentS3Keys: attachments.map(a => a.s3Key),
+  }, {
+    // Wait for a reopened draft to load so it isn't saved over with empty fields
+    enabled: !draftId || !!loadedDraftId,
+    draftId: loadedDraftId,
+  });
+
+  // Forwarding: the server quotes the original with its formatting and attachments, we only add a note
+  const originalMessageId = searchParams.get('type') === 'forward' ? searchParams.get('originalMessageId') : null;
+  const isForward = !!originalMessageId;
+  const { data: forwardPreview } = api.gmail.getForwardPreview.useQuery(
     { messageId: originalMessageId! },
-    { enabled: !!originalMessageId }
+    { enabled: isForward }
   );
 
-  // Handle forward parameters
   useEffect(() => {
-    const type = searchParams.get('type');
-    if (type === 'forward') {
-      setIsForward(true);
-      const originalSubject = searchParams.get('originalSubject');
-      const originalFrom = searchParams.get('originalFrom');
-      const originalDate = searchParams.get('originalDate');
-      
-      if (originalSubject) {
-        setSubject(`Fwd: ${originalSubject}`);
-      }
-      
-      // Set initial content with forwarded message header
-      if (originalFrom && originalDate) {
-        const forwardHeader = `\n\n---------- Forwarded message ----------\nFrom: ${originalFrom}\nDate: ${new Date(originalDate).toLocaleString()}\nSubject: ${originalSubject}\n\n`;
-        setContent(forwardHeader);
-      }
-    }
-  }, [searchParams]);
+    if (forwardPreview) setSubject(current => current || forwardPreview.subject);
+  }, [forwardPreview]);
 
-  // Update content when original message content loads
+  // New messages start with the default signature (forwards use the one for replies); drafts keep theirs
+  const { data: signatureSettings } = api.gmail.getSignatures.useQuery();
+  const signatureInserted = useRef(false);
   useEffect(() => {
-    if (isForward && originalContent) {
-      const originalSubject = searchParams.get('originalSubject');
-      const originalFrom = searchParams.get('originalFrom');
-      const originalDate = searchParams.get('originalDate');
-      
-      const forwardHeader = `\n\n---------- Forwarded message ----------\nFrom: ${originalFrom}\nDate: ${new Date(originalDate!).toLocaleString()}\nSubject: ${originalSubject}\n\n`;
-      const messageContent = originalContent.text || originalContent.html?.replace(/<[^>]*>/g, '') || '';
-      setContent(forwardHeader + messageContent);
-    }
-  }, [originalContent, isForward, searchParams]);
+    if (!signatureSettings || signatureInserted.current || draftId) return;
+    signatureInserted.current = true;
+    handleSignatureChange(isForward ? signatureSettings.defaults.reply : signatureSettings.defaults.new);
+  }, [signatureSettings, draftId, isForward]);
+
+  function handleSignatureChange(newSignatureId: string | null) {
+    const signature = signatureSettings?.signatures.find(s => s.id === newSignatureId);
+    setSignatureId(signature?.id ?? null);
+    setHtml(current => applySignature(current, signature?.html ?? null));
+  }
 
   const utils = api.useUtils();
   const uploadAttachment = api.gmail.uploadAttachment.useMutation();
+  const onSent = () => {
+    // Invalidate all relevant caches to show the sent message immediately
+    void utils.gmail.getThreads.invalidate();
+    void utils.gmail.getDrafts.invalidate();
+    draft.reset();
+    router.push("/dashboard");
+  };
   const sendEmail = api.gmail.sendReply.useMutation({
+    onSuccess: onSent,
+    onError: (error) => {
+      console.error("Send failed:", error);
+    },
+  });
+  const forwardMessage = api.gmail.forwardMessage.useMutation({
     onSuccess: (data) => {
-      // Invalidate all relevant caches to show the sent message immediately
-      void utils.gmail.getThreads.invalidate();
-      router.push("/dashboard");
+      void utils.gmail.getThread.invalidate({ threadId: data.threadId });
+      onSent();
     },
     onError: (error) => {
-      console.error("Send failed:", error);
+      console.error("Forward failed:", error);
     },
   });
+  const isSending = sendEmail.isPending || forwardMessage.isPending;
+
+  // A forward carries the original, so it may go out without a note of its own
+  const canSend = !!to.trim() && (isForward || hasBody);
 
   const handleSend = async () => {
-    if (!to.trim() || !content.trim()) return;
+    if (!canSend) return;
 
     try {
       // Clean and validate email addresses
@@ -94,73 +149,36 @@ export function ComposeEmail() {
         throw new Error("Please enter at least one valid email address");
       }
 
-      // Upload any pending attachments first
-      const attachmentKeys: string[] = [];
-      const attachmentMetadata: Array<{s3Key: string, filename: string, contentType: string, size: number}> = [];
-      
-      for (const file of attachments) {
-        // Check if already uploaded
-        const existingUpload = uploadedAttachments.find(u => u.filename === file.name);
-        if (existingUpload) {
-          attachmentKeys.push(existingUpload.s3Key);
-          attachmentMetadata.push({
-            s3Key: existingUpload.s3Key,
-            filename: file.name,
-            contentType: file.type || 'application/octet-stream',
-            size: file.size,
-          });
-          continue;
-        }
-
-        // Convert file to base64
-        const fileData = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            const result = reader.result as string;
-            const base64 = result.split(',')[1]; // Remove data:type;base64, prefix
-            if (base64) {
-              resolve(base64);
-            } else {
-              reject(new Error('Failed to convert file to base64'));
-            }
-          };
-          reader.onerror = () => reject(new Error('Failed to read file'));
-          reader.readAsDataURL(file);
-        });
-
-        // Upload to S3
-        const uploadResult = await uploadAttachment.mutateAsync({
-          filename: file.name,
-          contentType: file.type || 'application/octet-stream',
-          fileData,
-          size: file.size,
-        });
+      // Make sure the latest autosave has landed so the sent draft gets removed
+      const savedDraftId = await draft.settle();
 
-        attachmentKeys.push(uploadResult.s3Key);
-        attachmentMetadata.push({
-          s3Key: uploadResult.s3Key,
-          filename: uploadResult.filename,
-          contentType: uploadResult.contentType,
-          size: uploadResult.size,
+      if (originalMessageId) {
+        await forwardMessage.mutateAsync({
+          messageId: originalMessageId,
+          draftId: savedDraftId ?? undefined,
+          to: toEmails,
+          cc: ccEmails,
+          bcc: bccEmails,
+          subject: subject || undefined,
+          commentaryHtml: hasBody || signatureId ? html : "",
+          omitAttachmentIds: omittedAttachmentIds,
+          includeOriginalAsAttachment: includeOriginal,
+          attachmentKeys: attachments.map(a => a.s3Key),
+          attachments,
         });
-        
-        // Track uploaded attachment
-        setUploadedAttachments(prev => [...prev, {
-          id: uploadResult.attachmentId,
-          s3Key: uploadResult.s3Key,
-          filename: uploadResult.filename,
-        }]);
+        return;
       }
 
       await sendEmail.mutateAsync({
         threadId: "", // Empty string for new emails
+        draftId: savedDraftId ?? undefined,
         to: toEmails,
         cc: ccEmails,
         bcc: bccEmails,
         subject: subject || "(no subject)",
-        content,
-        attachmentKeys,
-        attachments: attachmentMetadata,
+        html,
+        attachmentKeys: attachments.map(a => a.s3Key),
+        attachments,
       });
     } catch (error) {
       console.error("Send failed:", error);
@@ -168,30 +186,49 @@ export function ComposeEmail() {
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Attachments are uploaded right away so they can be saved with the draft
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    setAttachments(prev => [...prev, ...files]);
+    e.target.value = "";
+
+    for (const file of files) {
+      try {
+        const uploadResult = await uploadAttachment.mutateAsync({
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          fileData: await readFileAsBase64(file),
+          size: file.size,
+        });
+
+        setAttachments(prev => [...prev, {
+          s3Key: uploadResult.s3Key,
+          filename: uploadResult.filename,
+          contentType: uploadResult.contentType,
+          size: uploadResult.size,
+        }]);
+      } catch (error) {
+        console.error("Upload failed:", error);
+        alert(`Failed to upload ${file.name}`);
+      }
+    }
   };
 
   const removeAttachment = (index: number) => {
-    const fileToRemove = attachments[index];
     setAttachments(prev => prev.filter((_, i) => i !== index));
-    
-    // Also remove from uploaded attachments if it was uploaded
-    if (fileToRemove) {
-      setUploadedAttachments(prev => prev.filter(u => u.filename !== fileToRemove.name));
-    }
   };
 
-  const handleDiscard = () => {
+  const handleDiscard = async () => {
     // Show confirmation if there's content
-    if (to.trim() || cc.trim() || bcc.trim() || subject.trim() || content.trim()) {
-      if (confirm("Discard this draft?")) {
-        router.push("/dashboard");
-      }
-    } else {
-      router.push("/dashboard");
+    if (to.trim() || cc.trim() || bcc.trim() || subject.trim() || hasBody || attachments.length > 0) {
+      if (!confirm("Discard this draft?")) return;
+    }
+
+    try {
+      await draft.discard();
+    } catch (error) {
+      console.error("Failed to delete draft:", error);
     }
+    router.push("/dashboard");
   };
 
   return (
@@ -214,13 +251,18 @@ export function ComposeEmail() {
               {isForward ? 'Forward Message' : 'New Message'}
             </h1>
           </div>
-          <button
-            onClick={handleDiscard}
-            className="text-sm font-medium transition-colors"
-            style={{ color: 'var(--color-raycast-text-secondary)' }}
-          >
-            Discard
-          </button>
+          <div className="flex items-center gap-4">
+            <span className="text-xs" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+              {draft.isSaving ? "Saving..." : draft.lastSavedAt ? "Draft saved" : null}
+            </span>
+            <button
+              onClick={handleDiscard}
+              className="text-sm font-medium transition-colors"
+              style={{ color: 'var(--color-raycast-text-secondary)' }}
+            >
+              Discard
+            </button>
+          </div>
         </div>
       </div>
 
@@ -298,20 +340,82 @@ export function ComposeEmail() {
 
           {/* Content Area */}
           <div className="relative">
-            <textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Compose your message..."
-              rows={12}
-              className="raycast-input resize-none"
-              style={{ minHeight: '300px' }}
+            <RichTextEditor
+              value={html}
+              onChange={setHtml}
+              placeholder={isForward ? "Add a message (optional)" : "Compose your message..."}
+              minHeight={isForward ? '150px' : '300px'}
             />
           </div>
 
+          {/* Forwarded message */}
+          {isForward && forwardPreview && (
+            <div className="space-y-3">
+              <div
+                className="p-4 rounded-lg text-sm max-h-80 overflow-y-auto"
+                style={{
+                  borderLeft: '3px solid var(--color-raycast-border-light)',
+                  backgroundColor: 'var(--color-raycast-bg-tertiary)',
+                  color: 'var(--color-raycast-text-secondary)',
+                }}
+              >
+                <div className="mb-3 space-y-0.5">
+                  <div>---------- Forwarded message ----------</div>
+                  <div>From: {forwardPreview.original.from}</div>
+                  <div>Date: {new Date(forwardPreview.original.date).toLocaleString()}</div>
+                  <div>Subject: {forwardPreview.original.subject}</div>
+                  {forwardPreview.original.to.length > 0 && <div>To: {forwardPreview.original.to.join(", ")}</div>}
+                  {forwardPreview.original.cc.length > 0 && <div>Cc: {forwardPreview.original.cc.join(", ")}</div>}
+                </div>
+                <div className="whitespace-pre-wrap" style={{ color: 'var(--color-raycast-text)' }}>
+                  {forwardPreview.original.text}
+                </div>
+              </div>
+
+              {forwardPreview.attachments.map(attachment => {
+                const isOmitted = omittedAttachmentIds.includes(attachment.id);
+                return (
+                  <div
+                    key={attachment.id}
+                    className={cn("flex items-center gap-2 p-2 rounded-lg", isOmitted && "opacity-50")}
+                    style={{ backgroundColor: 'var(--color-raycast-bg-tertiary)' }}
+                  >
+                    <PaperclipIcon className="w-4 h-4" style={{ color: 'var(--color-raycast-text-tertiary)' }} />
+                    <span className={cn("flex-1 text-sm truncate", isOmitted && "line-through")} style={{ color: 'var(--color-raycast-text)' }}>
+                      {attachment.filename}
+                    </span>
+                    <button
+                      onClick={() => setOmittedAttachmentIds(prev =>
+                        isOmitted ? prev.filter(id => id !== attachment.id) : [...prev, attachment.id]
+                      )}
+                      className="p-1 rounded transition-all hover:scale-105"
+                      style={{
+                        backgroundColor: 'var(--color-raycast-surface)',
+                        color: 'var(--color-raycast-text-secondary)'
+                      }}
+                      title={isOmitted ? "Include attachment" : "Leave out attachment"}
+                    >
+                      {isOmitted ? <Undo2Icon className="w-4 h-4" /> : <XIcon className="w-4 h-4" />}
+                    </button>
+                  </div>
+                );
+              })}
+
+              <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                <input
+                  type="checkbox"
+                  checked={includeOriginal}
+                  onChange={(e) => setIncludeOriginal(e.target.checked)}
+                />
+                Also attach the original message as an .eml file
+              </label>
+            </div>
+          )}
+
           {/* Attachments */}
           {attachments.length > 0 && (
             <div className="space-y-2">
-              {attachments.map((file, index) => (
+              {attachments.map((attachment, index) => (
                 <div 
                   key={index} 
                   className="flex items-center gap-2 p-2 rounded-lg"
@@ -319,7 +423,7 @@ export function ComposeEmail() {
                 >
                   <PaperclipIcon className="w-4 h-4" style={{ color: 'var(--color-raycast-text-tertiary)' }} />
                   <span className="flex-1 text-sm truncate" style={{ color: 'var(--color-raycast-text)' }}>
-                    {file.name}
+                    {attachment.filename}
                   </span>
                   <button
                     onClick={() => removeAttachment(index)}
@@ -341,11 +445,11 @@ export function ComposeEmail() {
             <div className="flex items-center gap-2">
               <button
                 onClick={handleSend}
-                disabled={sendEmail.isPending || uploadAttachment.isPending || !to.trim() || !content.trim()}
+                disabled={isSending || uploadAttachment.isPending || !canSend}
                 className="raycast-button primary gap-2 disabled:opacity-50"
               >
                 <SendIcon className="w-4 h-4" />
-                {uploadAttachment.isPending ? "Uploading..." : sendEmail.isPending ? "Sending..." : "Send"}
+                {uploadAttachment.isPending ? "Uploading..." : isSending ? "Sending..." : "Send"}
               </button>
 
               <input
@@ -362,6 +466,7 @@ export function ComposeEmail() {
               >
                 <PaperclipIcon className="w-5 h-5" />
               </button>
+              <SignaturePicker value={signatureId} onChange={handleSignatureChange} />
             </div>
 
             <div className="text-xs" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
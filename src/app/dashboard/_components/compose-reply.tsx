@@ -1,36 +1,128 @@
 "use client";
 
-import { useState, useRef, forwardRef, useImperativeHandle } from "react";
+import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from "react";
 import { api } from "~/trpc/react";
-import { SendIcon, PaperclipIcon, SparklesIcon, XIcon } from "lucide-react";
-import { cn } from "~/lib/utils";
+import { SendIcon, PaperclipIcon, SparklesIcon, XIcon, ReplyIcon, ReplyAllIcon, EllipsisIcon } from "lucide-react";
+import { cn, readFileAsBase64 } from "~/lib/utils";
+import { textToHtml } from "~/lib/html";
+import { applySignature, getComposerBody } from "~/lib/signature";
+import { useDraftAutosave, type DraftAttachment } from "~/hooks/use-draft-autosave";
 import type { Message } from "@prisma/client";
+import { useShortcuts } from "./keyboard-shortcuts";
+import { RichTextEditor } from "./rich-text-editor";
+import { SignaturePicker } from "./signature-picker";
 
 interface ComposeReplyProps {
   threadId: string;
+  draftId?: string | null; // Saved reply draft to reopen
 }
 
+// Splits a comma separated recipient field, keeping whatever the user typed
+const splitRecipients = (value: string) =>
+  value.split(",").map(e => e.trim()).filter(e => e.length > 0);
+
 export interface ComposeReplyHandle {
-  startReply: (message: Message) => void;
+  startReply: (message: Message, options?: { replyAll?: boolean }) => void;
 }
 
-export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({ threadId }, ref) => {
+export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({ threadId, draftId }, ref) => {
   const [isComposing, setIsComposing] = useState(false);
   const [to, setTo] = useState("");
   const [cc, setCc] = useState("");
   const [subject, setSubject] = useState("");
-  const [content, setContent] = useState("");
-  const [attachments, setAttachments] = useState<File[]>([]);
-  const [uploadedAttachments, setUploadedAttachments] = useState<{id: string, s3Key: string, filename: string}[]>([]);
+  const [html, setHtml] = useState("");
+  const [signatureId, setSignatureId] = useState<string | null>(null);
+  // The answered message is quoted below the reply, collapsed like in Gmail
+  const [includeQuote, setIncludeQuote] = useState(true);
+  const [showQuote, setShowQuote] = useState(false);
+  const [attachments, setAttachments] = useState<DraftAttachment[]>([]);
+  const [loadedDraftId, setLoadedDraftId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const composeRef = useRef<HTMLDivElement>(null);
+  // The message being answered and whether everyone on it is included
+  const [replyTarget, setReplyTarget] = useState<{ messageId: string; mode: "reply" | "replyAll" } | null>(null);
+
+  // An open reply takes over from the thread's shortcuts
+  useShortcuts("composer", {}, isComposing);
+
+  const { data: savedDraft } = api.gmail.getDraft.useQuery(
+    { draftId: draftId! },
+    { enabled: !!draftId }
+  );
+
+  useEffect(() => {
+    if (!savedDraft || savedDraft.id === loadedDraftId) return;
+
+    setIsComposing(true);
+    setTo(savedDraft.to.join(", "));
+    setCc(savedDraft.cc.join(", "));
+    setSubject(savedDraft.subject);
+    setHtml(savedDraft.htmlContent || textToHtml(savedDraft.textContent));
+    setAttachments(savedDraft.attachments);
+    setLoadedDraftId(savedDraft.id);
+  }, [savedDraft, loadedDraftId]);
+
+  // The signature alone doesn't make a reply worth sending or saving
+  const body = getComposerBody(html);
+  const hasBody = !!body.text.trim() || body.hasImages;
+
+  const draft = useDraftAutosave({
+    threadId,
+    replyToMessageId: replyTarget?.messageId,
+    to: splitRecipients(to),
+    cc: splitRecipients(cc),
+    bcc: [],
+    subject,
+    textContent: body.text,
+    htmlContent: html,
+    attachmentS3Keys: attachments.map(a => a.s3Key),
+  }, {
+    enabled: isComposing && (!draftId || !!loadedDraftId),
+    draftId: loadedDraftId,
+  });
+
+  const utils = api.useUtils();
+
+  // Without an explicit target the server answers the latest message, so that one is quoted
+  const { data: thread } = api.gmail.getThread.useQuery({ threadId });
+  const quotedMessage = replyTarget
+    ? thread?.messages.find(message => message.id === replyTarget.messageId)
+    : thread?.messages[thread.messages.length - 1];
+
+  const { data: signatureSettings } = api.gmail.getSignatures.useQuery();
+
+  function handleSignatureChange(newSignatureId: string | null) {
+    const signature = signatureSettings?.signatures.find(s => s.id === newSignatureId);
+    setSignatureId(signature?.id ?? null);
+    setHtml(current => applySignature(current, signature?.html ?? null));
+  }
+
+  // Replies start with the default signature for replies
+  const startComposing = () => {
+    setIsComposing(true);
+    handleSignatureChange(signatureSettings?.defaults.reply ?? null);
+  };
+
+  // The server works out recipients, since it knows the parent's Reply-To and our aliases
+  const loadReplyRecipients = async (messageId: string, mode: "reply" | "replyAll") => {
+    setReplyTarget({ messageId, mode });
+    try {
+      const recipients = await utils.gmail.getReplyRecipients.fetch({ messageId, mode });
+      setTo(recipients.to.join(", "));
+      setCc(recipients.cc.join(", "));
+      setSubject(recipients.subject);
+    } catch (error) {
+      console.error("Failed to load reply recipients:", error);
+      alert(error instanceof Error ? error.message : "Failed to load reply recipients");
+    }
+  };
 
   useImperativeHandle(ref, () => ({
-    startReply: (message: Message) => {
-      setIsComposing(true);
-      setTo(message.from);
+    startReply: (message: Message, options?: { replyAll?: boolean }) => {
       setSubject(message.subject.startsWith('Re: ') ? message.subject : `Re: ${message.subject}`);
-      setContent('');
+      setHtml('');
+      startComposing();
+      void loadReplyRecipients(message.id, options?.replyAll ? "replyAll" : "reply");
       
       // Scroll to compose area after state updates
       setTimeout(() => {
@@ -42,13 +134,13 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
     }
   }));
 
-  const utils = api.useUtils();
   const uploadAttachment = api.gmail.uploadAttachment.useMutation();
   const sendReply = api.gmail.sendReply.useMutation({
     onSuccess: (data) => {
       // Invalidate all relevant caches to show the sent message immediately
       void utils.gmail.getThread.invalidate({ threadId });
       void utils.gmail.getThreads.invalidate(); // This invalidates ALL getThreads queries including Sent page
+      void utils.gmail.getDrafts.invalidate();
       
       console.log("Send successful, optimistic message:", data.optimisticMessage);
     },
@@ -62,7 +154,7 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
   const generateAIDraft = api.gmail.generateAIDraft.useMutation();
 
   const handleSend = async () => {
-    if (!to.trim() || !content.trim()) return;
+    if (!to.trim() || !hasBody) return;
 
     try {
       // Clean and validate email addresses
@@ -80,82 +172,25 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
         throw new Error("Please enter at least one valid email address");
       }
 
-      // Upload any pending attachments first
-      const attachmentKeys: string[] = [];
-      const attachmentMetadata: Array<{s3Key: string, filename: string, contentType: string, size: number}> = [];
-      
-      for (const file of attachments) {
-        // Check if already uploaded
-        const existingUpload = uploadedAttachments.find(u => u.filename === file.name);
-        if (existingUpload) {
-          attachmentKeys.push(existingUpload.s3Key);
-          attachmentMetadata.push({
-            s3Key: existingUpload.s3Key,
-            filename: file.name,
-            contentType: file.type || 'application/octet-stream',
-            size: file.size,
-          });
-          continue;
-        }
-
-        // Convert file to base64
-        const fileData = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            const result = reader.result as string;
-            const base64 = result.split(',')[1]; // Remove data:type;base64, prefix
-            if (base64) {
-              resolve(base64);
-            } else {
-              reject(new Error('Failed to convert file to base64'));
-            }
-          };
-          reader.onerror = () => reject(new Error('Failed to read file'));
-          reader.readAsDataURL(file);
-        });
-
-        // Upload to S3
-        const uploadResult = await uploadAttachment.mutateAsync({
-          filename: file.name,
-          contentType: file.type || 'application/octet-stream',
-          fileData,
-          size: file.size,
-        });
-
-        attachmentKeys.push(uploadResult.s3Key);
-        attachmentMetadata.push({
-          s3Key: uploadResult.s3Key,
-          filename: uploadResult.filename,
-          contentType: uploadResult.contentType,
-          size: uploadResult.size,
-        });
-        
-        // Track uploaded attachment
-        setUploadedAttachments(prev => [...prev, {
-          id: uploadResult.attachmentId,
-          s3Key: uploadResult.s3Key,
-          filename: uploadResult.filename,
-        }]);
-      }
+      // Make sure the latest autosave has landed so the sent draft gets removed
+      const savedDraftId = await draft.settle();
 
       await sendReply.mutateAsync({
         threadId,
+        replyToMessageId: replyTarget?.messageId,
+        draftId: savedDraftId ?? undefined,
         to: toEmails,
         cc: ccEmails,
         subject,
-        content,
-        attachmentKeys,
-        attachments: attachmentMetadata,
+        html,
+        includeQuote: includeQuote && !!quotedMessage,
+        attachmentKeys: attachments.map(a => a.s3Key),
+        attachments,
       });
 
       // Reset form only after successful send
-      setIsComposing(false);
-      setTo("");
-      setCc("");
-      setSubject("");
-      setContent("");
-      setAttachments([]);
-      setUploadedAttachments([]);
+      draft.reset();
+      resetForm();
     } catch (error) {
       console.error("Send failed:", error);
       alert(error instanceof Error ? error.message : "Failed to send email");
@@ -165,24 +200,63 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
   const handleAIDraft = async () => {
     try {
       const result = await generateAIDraft.mutateAsync({ threadId });
-      setContent(result.draft);
+      const signature = signatureSettings?.signatures.find(s => s.id === signatureId);
+      setHtml(applySignature(textToHtml(result.draft), signature?.html ?? null));
     } catch (error) {
       console.error("Failed to generate AI draft:", error);
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Attachments are uploaded right away so they can be saved with the draft
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    setAttachments(prev => [...prev, ...files]);
+    e.target.value = "";
+
+    for (const file of files) {
+      try {
+        const uploadResult = await uploadAttachment.mutateAsync({
+          filename: file.name,
+          contentType: file.type || 'application/octet-stream',
+          fileData: await readFileAsBase64(file),
+          size: file.size,
+        });
+
+        setAttachments(prev => [...prev, {
+          s3Key: uploadResult.s3Key,
+          filename: uploadResult.filename,
+          contentType: uploadResult.contentType,
+          size: uploadResult.size,
+        }]);
+      } catch (error) {
+        console.error("Upload failed:", error);
+        alert(`Failed to upload ${file.name}`);
+      }
+    }
   };
 
   const removeAttachment = (index: number) => {
-    const fileToRemove = attachments[index];
     setAttachments(prev => prev.filter((_, i) => i !== index));
-    
-    // Also remove from uploaded attachments if it was uploaded
-    if (fileToRemove) {
-      setUploadedAttachments(prev => prev.filter(u => u.filename !== fileToRemove.name));
+  };
+
+  const resetForm = () => {
+    setIsComposing(false);
+    setReplyTarget(null);
+    setTo("");
+    setCc("");
+    setSubject("");
+    setHtml("");
+    setSignatureId(null);
+    setIncludeQuote(true);
+    setShowQuote(false);
+    setAttachments([]);
+  };
+
+  const handleCancel = async () => {
+    resetForm();
+    try {
+      await draft.discard();
+    } catch (error) {
+      console.error("Failed to delete draft:", error);
     }
   };
 
@@ -191,7 +265,7 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
       <div ref={composeRef} className="p-6">
         <button
           onClick={() => {
-            setIsComposing(true);
+            startComposing();
             // Scroll to compose area when manually clicking
             setTimeout(() => {
               composeRef.current?.scrollIntoView({ 
@@ -216,6 +290,21 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
 
   return (
     <div ref={composeRef} className="raycast-card m-6 p-6 space-y-4">
+      {replyTarget && (
+        <div className="flex items-center gap-2">
+          {(["reply", "replyAll"] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => void loadReplyRecipients(replyTarget.messageId, mode)}
+              className={cn("raycast-button gap-2 text-sm", replyTarget.mode === mode && "primary")}
+            >
+              {mode === "reply" ? <ReplyIcon className="w-4 h-4" /> : <ReplyAllIcon className="w-4 h-4" />}
+              {mode === "reply" ? "Reply" : "Reply all"}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-3">
         <div className="flex gap-3 items-center">
           <label className="text-sm font-medium w-16" style={{ color: 'var(--color-raycast-text-secondary)' }}>
@@ -258,20 +347,18 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
       </div>
 
       <div className="relative">
-        <textarea
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
+        <RichTextEditor
+          value={html}
+          onChange={setHtml}
           placeholder="Compose your reply..."
-          rows={6}
-          className="raycast-input resize-none"
-          style={{ minHeight: '120px' }}
+          minHeight="120px"
         />
         
         <button
           onClick={handleAIDraft}
           disabled={generateAIDraft.isPending}
           className={cn(
-            "absolute top-3 right-3 px-3 py-1 text-sm rounded-lg flex items-center gap-2 transition-colors",
+            "absolute top-1 right-2 px-3 py-1 text-sm rounded-lg flex items-center gap-2 transition-colors",
             "bg-purple-100 hover:bg-purple-200 text-purple-700 disabled:opacity-50"
           )}
         >
@@ -280,10 +367,46 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
         </button>
       </div>
 
+      {/* Quoted message */}
+      {includeQuote && quotedMessage && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowQuote(!showQuote)}
+              className="px-2 py-0.5 rounded transition-colors hover:bg-gray-100"
+              style={{ backgroundColor: 'var(--color-raycast-bg-tertiary)', color: 'var(--color-raycast-text-secondary)' }}
+              title={showQuote ? "Hide quoted text" : "Show quoted text"}
+            >
+              <EllipsisIcon className="w-4 h-4" />
+            </button>
+            {showQuote && (
+              <button
+                onClick={() => setIncludeQuote(false)}
+                className="text-xs transition-colors"
+                style={{ color: 'var(--color-raycast-text-secondary)' }}
+              >
+                Remove quoted text
+              </button>
+            )}
+          </div>
+          {showQuote && (
+            <div
+              className="pl-3 text-sm max-h-64 overflow-y-auto"
+              style={{ borderLeft: '2px solid var(--color-raycast-border-light)', color: 'var(--color-raycast-text-secondary)' }}
+            >
+              <div className="mb-2">
+                On {new Date(quotedMessage.date).toLocaleString()}, {quotedMessage.from} wrote:
+              </div>
+              <div className="whitespace-pre-wrap">{quotedMessage.textContent ?? quotedMessage.snippet}</div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Attachments */}
       {attachments.length > 0 && (
         <div className="space-y-2">
-          {attachments.map((file, index) => (
+          {attachments.map((attachment, index) => (
             <div 
               key={index} 
               className="flex items-center gap-2 p-2 rounded-lg"
@@ -291,7 +414,7 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
             >
               <PaperclipIcon className="w-4 h-4" style={{ color: 'var(--color-raycast-text-tertiary)' }} />
               <span className="flex-1 text-sm truncate" style={{ color: 'var(--color-raycast-text)' }}>
-                {file.name}
+                {attachment.filename}
               </span>
               <button
                 onClick={() => removeAttachment(index)}
@@ -313,7 +436,7 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
         <div className="flex items-center gap-2">
           <button
             onClick={handleSend}
-            disabled={sendReply.isPending || uploadAttachment.isPending || !to.trim() || !content.trim()}
+            disabled={sendReply.isPending || uploadAttachment.isPending || !to.trim() || !hasBody}
             className="raycast-button primary gap-2 disabled:opacity-50"
           >
             <SendIcon className="w-4 h-4" />
@@ -334,25 +457,23 @@ export const ComposeReply = forwardRef<ComposeReplyHandle, ComposeReplyProps>(({
           >
             <PaperclipIcon className="w-5 h-5" />
           </button>
+          <SignaturePicker value={signatureId} onChange={handleSignatureChange} />
         </div>
 
-        <button
-          onClick={() => {
-            setIsComposing(false);
-            setTo("");
-            setCc("");
-            setSubject("");
-            setContent("");
-            setAttachments([]);
-            setUploadedAttachments([]);
-          }}
-          className="text-sm font-medium transition-colors"
-          style={{ 
-            color: 'var(--color-raycast-text-secondary)',
-          }}
-        >
-          Cancel
-        </button>
+        <div className="flex items-center gap-4">
+          <span className="text-xs" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+            {draft.isSaving ? "Saving..." : draft.lastSavedAt ? "Draft saved" : null}
+          </span>
+          <button
+            onClick={handleCancel}
+            className="text-sm font-medium transition-colors"
+            style={{ 
+              color: 'var(--color-raycast-text-secondary)',
+            }}
+          >
+            Discard
+          </button>
+        </div>
       </div>
     </div>
   );
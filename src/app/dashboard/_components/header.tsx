@@ -1,17 +1,26 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { SearchIcon, UserCircleIcon, LogOutIcon, FilterIcon } from "lucide-react";
 import { signOut } from "next-auth/react";
 import { useSession } from "next-auth/react";
 import { AdvancedSearch } from "./advanced-search";
+import { useShortcuts } from "./keyboard-shortcuts";
 
 export function Header() {
   const [searchQuery, setSearchQuery] = useState("");
   const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
   const router = useRouter();
   const { data: session } = useSession();
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  useShortcuts("global", {
+    focusSearch: () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    },
+  });
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,6 +45,7 @@ export function Header() {
               <div className="raycast-search" style={{ maxWidth: 'none' }}>
                 <SearchIcon className="raycast-search-icon w-5 h-5" />
                 <input
+                  ref={searchInputRef}
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
@@ -86,6 +96,7 @@ export function Header() {
         isOpen={showAdvancedSearch}
         onClose={() => setShowAdvancedSearch(false)}
         initialQuery={searchQuery}
+        onSearch={setSearchQuery}
       />
     </header>
   );
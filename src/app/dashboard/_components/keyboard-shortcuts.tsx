@@ -0,0 +1,200 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { XIcon } from "lucide-react";
+import {
+  CONTEXT_PRIORITY,
+  SHORTCUTS,
+  findShortcut,
+  isSequencePrefix,
+  shouldIgnoreKeyEvent,
+  type ShortcutContext,
+  type ShortcutHandlers,
+} from "~/lib/keyboard-shortcuts";
+
+// How long the second key of a sequence like "g i" may take
+const SEQUENCE_TIMEOUT_MS = 1500;
+
+interface Registration {
+  context: ShortcutContext;
+  handlers: { current: ShortcutHandlers };
+}
+
+interface ShortcutRegistry {
+  register: (registration: Registration) => () => void;
+}
+
+const ShortcutRegistryContext = createContext<ShortcutRegistry | null>(null);
+
+/**
+ * Owns the single keydown listener for the dashboard. Mounted views register
+ * their handlers with useShortcuts; only the most specific mounted context
+ * (composer, then thread, then list) gets its bindings, plus the global ones.
+ */
+export function KeyboardShortcutsProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const registrations = useRef<Registration[]>([]);
+  const pendingPrefix = useRef<{ key: string; expiresAt: number } | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+
+  const registry = useMemo<ShortcutRegistry>(() => ({
+    register: (registration) => {
+      registrations.current.push(registration);
+      return () => {
+        registrations.current = registrations.current.filter(r => r !== registration);
+      };
+    },
+  }), []);
+
+  // Navigation and help work everywhere, so the provider handles them itself
+  const builtInHandlers = useRef<ShortcutHandlers>({});
+  builtInHandlers.current = {
+    compose: () => router.push("/dashboard/compose"),
+    goToInbox: () => router.push("/dashboard"),
+    goToStarred: () => router.push("/dashboard/starred"),
+    showHelp: () => setShowHelp(true),
+  };
+
+  useEffect(() => {
+    return registry.register({ context: "global", handlers: builtInHandlers });
+  }, [registry]);
+
+  useEffect(() => {
+    if (showHelp) {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === "Escape" || e.key === "?") setShowHelp(false);
+      };
+      document.addEventListener("keydown", handleKeyDown);
+      return () => document.removeEventListener("keydown", handleKeyDown);
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (shouldIgnoreKeyEvent(e)) {
+        pendingPrefix.current = null;
+        return;
+      }
+
+      const prefix = pendingPrefix.current && pendingPrefix.current.expiresAt > Date.now()
+        ? pendingPrefix.current.key
+        : null;
+      pendingPrefix.current = null;
+
+      // Highest-priority registrations first, latest first within a context
+      const ordered = [...registrations.current].reverse()
+        .sort((a, b) => CONTEXT_PRIORITY[b.context] - CONTEXT_PRIORITY[a.context]);
+      const context = ordered[0]?.context ?? "global";
+
+      const shortcut = findShortcut(prefix ? `${prefix} ${e.key}` : e.key, context);
+      if (!shortcut) {
+        if (!prefix && isSequencePrefix(e.key)) {
+          pendingPrefix.current = { key: e.key, expiresAt: Date.now() + SEQUENCE_TIMEOUT_MS };
+        }
+        return;
+      }
+
+      const handler = ordered
+        .filter(r => r.context === "global" || r.context === context)
+        .map(r => r.handlers.current[shortcut.id])
+        .find(h => h !== undefined);
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [showHelp]);
+
+  return (
+    <ShortcutRegistryContext.Provider value={registry}>
+      {children}
+      {showHelp && <ShortcutHelp onClose={() => setShowHelp(false)} />}
+    </ShortcutRegistryContext.Provider>
+  );
+}
+
+/**
+ * Registers keyboard shortcut handlers for as long as the calling component is
+ * mounted (and `enabled`). Handlers may change on every render.
+ */
+export function useShortcuts(context: ShortcutContext, handlers: ShortcutHandlers, enabled = true) {
+  const registry = useContext(ShortcutRegistryContext);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!registry || !enabled) return;
+    return registry.register({ context, handlers: handlersRef });
+  }, [registry, context, enabled]);
+}
+
+const HELP_SECTIONS: Array<{ title: string; context: ShortcutContext }> = [
+  { title: "Anywhere", context: "global" },
+  { title: "Conversation list", context: "list" },
+  { title: "Open conversation", context: "thread" },
+];
+
+function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+      onClick={onClose}
+    >
+      <div
+        className="raycast-card w-full max-w-2xl max-h-[80vh] overflow-y-auto p-6"
+        style={{ backgroundColor: 'var(--color-raycast-surface)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-raycast-text)' }}>
+            Keyboard shortcuts
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-100" title="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          {HELP_SECTIONS.map(section => (
+            <div key={section.context}>
+              <h3 className="text-xs font-semibold uppercase mb-2" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                {section.title}
+              </h3>
+              <div className="space-y-1.5">
+                {SHORTCUTS
+                  .filter(shortcut => (shortcut.contexts as readonly ShortcutContext[]).includes(section.context))
+                  .map(shortcut => (
+                    <div key={shortcut.id} className="flex items-center justify-between gap-4 text-sm">
+                      <span style={{ color: 'var(--color-raycast-text)' }}>{shortcut.description}</span>
+                      <span className="flex items-center gap-1 whitespace-nowrap">
+                        {shortcut.sequences.map((sequence, index) => (
+                          <span key={sequence} className="flex items-center gap-1">
+                            {index > 0 && <span style={{ color: 'var(--color-raycast-text-tertiary)' }}>/</span>}
+                            {sequence.split(" ").map((key, keyIndex) => (
+                              <kbd
+                                key={keyIndex}
+                                className="px-1.5 py-0.5 rounded text-xs font-mono"
+                                style={{
+                                  backgroundColor: 'var(--color-raycast-bg-tertiary)',
+                                  border: '1px solid var(--color-raycast-border-light)',
+                                }}
+                              >
+                                {key}
+                              </kbd>
+                            ))}
+                          </span>
+                        ))}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
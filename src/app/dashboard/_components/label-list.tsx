@@ -0,0 +1,291 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import {
+  TagIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  CheckIcon,
+  XIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from "lucide-react";
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+import type { Label } from "@prisma/client";
+
+// Gmail only accepts colors from its own palette
+const LABEL_COLORS = [
+  { backgroundColor: "#fb4c2f", textColor: "#ffffff" },
+  { backgroundColor: "#ffad47", textColor: "#ffffff" },
+  { backgroundColor: "#fad165", textColor: "#000000" },
+  { backgroundColor: "#16a766", textColor: "#ffffff" },
+  { backgroundColor: "#43d692", textColor: "#ffffff" },
+  { backgroundColor: "#4a86e8", textColor: "#ffffff" },
+  { backgroundColor: "#a479e2", textColor: "#ffffff" },
+  { backgroundColor: "#f691b3", textColor: "#ffffff" },
+  { backgroundColor: "#999999", textColor: "#ffffff" },
+  { backgroundColor: "#434343", textColor: "#ffffff" },
+];
+
+type LabelColor = (typeof LABEL_COLORS)[number];
+
+interface LabelNode {
+  name: string;
+  path: string;
+  label?: Label;
+  children: LabelNode[];
+}
+
+// Gmail nests labels by name ("Parent/Child"); parents without a label of their own still get a node
+function buildLabelTree(labels: Label[]): LabelNode[] {
+  const roots: LabelNode[] = [];
+  const nodes = new Map<string, LabelNode>();
+
+  for (const label of [...labels].sort((a, b) => a.name.localeCompare(b.name))) {
+    let siblings = roots;
+    let path = "";
+
+    label.name.split("/").forEach((part, index, parts) => {
+      path = path ? `${path}/${part}` : part;
+      let node = nodes.get(path);
+      if (!node) {
+        node = { name: part, path, children: [] };
+        nodes.set(path, node);
+        siblings.push(node);
+      }
+      if (index === parts.length - 1) node.label = label;
+      siblings = node.children;
+    });
+  }
+
+  return roots;
+}
+
+interface LabelListProps {
+  labels: Label[];
+  counts?: Map<string, { unread: number; total: number }>; // By label id
+  isItemActive: (href: string) => boolean;
+}
+
+export function LabelList({ labels, counts, isItemActive }: LabelListProps) {
+  const [newLabelName, setNewLabelName] = useState<string | null>(null);
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const utils = api.useUtils();
+  const invalidateLabels = () => {
+    void utils.gmail.getLabels.invalidate();
+    void utils.gmail.getThreads.invalidate();
+  };
+  const onError = (error: { message: string }) => alert(error.message);
+
+  const createLabel = api.gmail.createLabel.useMutation({
+    onSuccess: () => setNewLabelName(null),
+    onError,
+    onSettled: invalidateLabels,
+  });
+  const updateLabel = api.gmail.updateLabel.useMutation({
+    onSuccess: () => setEditingLabelId(null),
+    onError,
+    onSettled: invalidateLabels,
+  });
+  const deleteLabel = api.gmail.deleteLabel.useMutation({
+    onError,
+    onSettled: invalidateLabels,
+  });
+
+  const tree = buildLabelTree(labels);
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleDelete = (label: Label) => {
+    if (confirm(`Delete the label "${label.name}"? Conversations keep their other labels.`)) {
+      deleteLabel.mutate({ labelId: label.id });
+    }
+  };
+
+  const renderNode = (node: LabelNode, depth: number) => {
+    const label = node.label;
+    const href = label ? `/dashboard/label/${label.id}` : null;
+    const isCollapsed = collapsed.has(node.path);
+    const labelCounts = label ? counts?.get(label.id) : undefined;
+
+    if (label && editingLabelId === label.id) {
+      return (
+        <div key={node.path} style={{ paddingLeft: depth * 12 }}>
+          <LabelEditor
+            initialName={label.name}
+            initialColor={label.color}
+            isPending={updateLabel.isPending}
+            onCancel={() => setEditingLabelId(null)}
+            onSave={(name, color) => updateLabel.mutate({
+              labelId: label.id,
+              name: name !== label.name ? name : undefined,
+              color,
+            })}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div key={node.path}>
+        <div
+          className={cn(
+            "raycast-list-item group gap-2 text-sm font-medium",
+            href && isItemActive(href) && "active"
+          )}
+          style={{ paddingLeft: 12 + depth * 12 }}
+        >
+          {node.children.length > 0 ? (
+            <button onClick={() => toggleCollapsed(node.path)} className="p-0.5" title={isCollapsed ? "Expand" : "Collapse"}>
+              {isCollapsed ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+
+          {href ? (
+            <Link
+              href={href}
+              className="flex flex-1 min-w-0 items-center gap-3"
+              title={labelCounts ? `${labelCounts.unread} unread of ${labelCounts.total}` : undefined}
+            >
+              <TagIcon className="w-5 h-5 flex-shrink-0" style={{ color: label?.color ?? undefined }} />
+              <span className="truncate flex-1">{node.name}</span>
+              {labelCounts && labelCounts.unread > 0 && (
+                <span className="text-xs font-semibold group-hover:hidden" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                  {labelCounts.unread}
+                </span>
+              )}
+            </Link>
+          ) : (
+            <span className="flex flex-1 min-w-0 items-center gap-3" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+              <TagIcon className="w-5 h-5 flex-shrink-0" />
+              <span className="truncate">{node.name}</span>
+            </span>
+          )}
+
+          <div className="hidden group-hover:flex items-center gap-1">
+            <button onClick={() => setNewLabelName(`${node.path}/`)} className="p-0.5" title="Add sublabel">
+              <PlusIcon className="w-3.5 h-3.5" />
+            </button>
+            {label && (
+              <>
+                <button onClick={() => setEditingLabelId(label.id)} className="p-0.5" title="Edit label">
+                  <PencilIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(label)} className="p-0.5" title="Delete label">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div className="pt-4 pb-2 px-3 flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+          Labels
+        </h3>
+        <button
+          onClick={() => setNewLabelName("")}
+          className="p-0.5"
+          title="Create label"
+          style={{ color: 'var(--color-raycast-text-secondary)' }}
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {newLabelName !== null && (
+        <LabelEditor
+          initialName={newLabelName}
+          isPending={createLabel.isPending}
+          onCancel={() => setNewLabelName(null)}
+          onSave={(name, color) => createLabel.mutate({ name, color })}
+        />
+      )}
+
+      {tree.map(node => renderNode(node, 0))}
+    </>
+  );
+}
+
+interface LabelEditorProps {
+  initialName: string;
+  initialColor?: string | null;
+  isPending: boolean;
+  onSave: (name: string, color?: LabelColor) => void;
+  onCancel: () => void;
+}
+
+function LabelEditor({ initialName, initialColor, isPending, onSave, onCancel }: LabelEditorProps) {
+  const [name, setName] = useState(initialName);
+  const [color, setColor] = useState<LabelColor | undefined>(
+    LABEL_COLORS.find(c => c.backgroundColor === initialColor)
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onSave(name.trim(), color);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="px-3 py-2 space-y-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+        placeholder="Label name (use / to nest)"
+        className="raycast-input w-full text-sm"
+        autoFocus
+      />
+      <div className="flex flex-wrap gap-1">
+        {LABEL_COLORS.map(option => (
+          <button
+            key={option.backgroundColor}
+            type="button"
+            onClick={() => setColor(option)}
+            className={cn(
+              "w-4 h-4 rounded-full",
+              color?.backgroundColor === option.backgroundColor && "ring-2 ring-offset-1 ring-gray-400"
+            )}
+            style={{ backgroundColor: option.backgroundColor }}
+            title={option.backgroundColor}
+          />
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button type="submit" disabled={isPending || !name.trim()} className="raycast-button primary gap-1 text-xs disabled:opacity-50">
+          <CheckIcon className="w-3.5 h-3.5" />
+          {isPending ? "Saving..." : "Save"}
+        </button>
+        <button type="button" onClick={onCancel} className="raycast-button gap-1 text-xs">
+          <XIcon className="w-3.5 h-3.5" />
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { TagIcon } from "lucide-react";
+import { api } from "~/trpc/react";
+
+interface LabelPickerProps {
+  threadId: string;
+  appliedLabelIds: string[];
+}
+
+export function LabelPicker({ threadId, appliedLabelIds }: LabelPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data: labels } = api.gmail.getLabels.useQuery();
+  const utils = api.useUtils();
+  const mutationOptions = {
+    onError: (error: { message: string }) => alert(error.message),
+    onSettled: () => {
+      void utils.gmail.getThread.invalidate({ threadId });
+      void utils.gmail.getThreads.invalidate();
+      void utils.gmail.getLabelCounts.invalidate();
+    },
+  };
+  const addLabels = api.gmail.addLabels.useMutation(mutationOptions);
+  const removeLabels = api.gmail.removeLabels.useMutation(mutationOptions);
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const userLabels = (labels ?? [])
+    .filter(label => label.type === "USER")
+    .filter(label => label.name.toLowerCase().includes(filter.toLowerCase()));
+
+  const handleToggle = (labelId: string, applied: boolean) => {
+    if (applied) {
+      removeLabels.mutate({ threadId, labelIds: [labelId] });
+    } else {
+      addLabels.mutate({ threadId, labelIds: [labelId] });
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-400"
+        title="Labels"
+      >
+        <TagIcon className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="raycast-card absolute right-0 top-full mt-2 w-64 z-20 p-2 space-y-1" style={{ backgroundColor: 'var(--color-raycast-surface)' }}>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter labels"
+            className="raycast-input w-full text-sm"
+            autoFocus
+          />
+          <div className="max-h-64 overflow-y-auto">
+            {userLabels.length === 0 ? (
+              <div className="px-2 py-3 text-sm" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                No labels found
+              </div>
+            ) : (
+              userLabels.map(label => {
+                const applied = appliedLabelIds.includes(label.id);
+                return (
+                  <label key={label.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={applied}
+                      disabled={addLabels.isPending || removeLabels.isPending}
+                      onChange={() => handleToggle(label.id, applied)}
+                      className="raycast-checkbox"
+                    />
+                    <TagIcon className="w-4 h-4 flex-shrink-0" style={{ color: label.color ?? undefined }} />
+                    <span className="text-sm truncate">{label.name}</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,52 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { formatDistanceToNow } from "date-fns";
-import { ChevronDownIcon, ChevronRightIcon, PaperclipIcon, DownloadIcon, ForwardIcon, ReplyIcon } from "lucide-react";
+import { ChevronDownIcon, ChevronRightIcon, PaperclipIcon, DownloadIcon, ForwardIcon, ReplyIcon, ReplyAllIcon, StarIcon, ArchiveIcon, TrashIcon, ImageOffIcon } from "lucide-react";
 import { api } from "~/trpc/react";
-import { cn } from "~/lib/utils";
+import { cn, getSenderName } from "~/lib/utils";
 import type { Message, Attachment } from "@prisma/client";
 
 interface MessageViewProps {
   message: Message & {
-    attachments: Attachment[];
+    attachments: Omit<Attachment, "textContent">[];
   };
   isExpanded?: boolean;
   onForward?: (message: Message) => void;
   onReply?: (message: Message) => void;
+  onReplyAll?: (message: Message) => void;
+  onToggleStar?: (message: Message) => void;
+  // Thread-level actions offered alongside each message
+  onArchive?: () => void;
+  onTrash?: () => void;
 }
 
-export function MessageView({ message, isExpanded: initialExpanded = false, onForward, onReply }: MessageViewProps) {
+export function MessageView({ message, isExpanded: initialExpanded = false, onForward, onReply, onReplyAll, onToggleStar, onArchive, onTrash }: MessageViewProps) {
   const [isExpanded, setIsExpanded] = useState(initialExpanded);
-  const [contentLoaded, setContentLoaded] = useState(false);
-  
+  const [showImages, setShowImages] = useState(false);
+  // Inline images render inside the body, so only real attachments are listed
+  const attachments = message.attachments.filter(attachment => !attachment.inline);
+
   const { data: content, isLoading } = api.gmail.getMessageContent.useQuery(
-    { messageId: message.id },
-    { enabled: isExpanded && !contentLoaded }
+    { messageId: message.id, showImages },
+    {
+      enabled: isExpanded,
+      placeholderData: (previous) => previous, // Keep the body on screen while images load
+    }
   );
 
-  useEffect(() => {
-    if (content && !contentLoaded) {
-      setContentLoaded(true);
-    }
-  }, [content, contentLoaded]);
+  const utils = api.useUtils();
+  const setSenderImagePreference = api.gmail.setSenderImagePreference.useMutation({
+    onSuccess: () => {
+      // Other messages from this sender change too
+      void utils.gmail.getMessageContent.invalidate();
+    },
+    onError: (error) => alert(error.message),
+  });
 
-  const fromName = message.from.split("<")[0]?.trim() || message.from;
+  const fromName = getSenderName(message.from);
   const fromEmail = message.from.match(/<(.+)>/)?.[1] || message.from;
+  const isStarred = message.labelIds.includes("STARRED");
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
@@ -60,7 +74,10 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
         </div>
 
         <div className="flex items-center gap-2 text-sm text-gray-500">
-          {message.attachments.length > 0 && (
+          {isStarred && (
+            <StarIcon className="w-4 h-4 text-yellow-500" fill="currentColor" />
+          )}
+          {attachments.length > 0 && (
             <PaperclipIcon className="w-4 h-4" />
           )}
           <span>{formatDistanceToNow(message.date, { addSuffix: true })}</span>
@@ -76,14 +93,46 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
               {message.cc.length > 0 && <div>Cc: {message.cc.join(", ")}</div>}
             </div>
 
+            {content && content.blockedImages > 0 && (
+              <div className="flex flex-wrap items-center gap-3 mb-3 px-3 py-2 rounded-lg bg-gray-50 text-sm text-gray-600">
+                <ImageOffIcon className="w-4 h-4" />
+                <span>Images are not displayed.</span>
+                <button onClick={() => setShowImages(true)} className="text-blue-600 hover:text-blue-800">
+                  Show images
+                </button>
+                {content.senderAddress && (
+                  <button
+                    onClick={() => setSenderImagePreference.mutate({ address: content.senderAddress!, alwaysShowImages: true })}
+                    disabled={setSenderImagePreference.isPending}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Always show images from {content.senderAddress}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {content?.senderTrusted && content.senderAddress && (
+              <div className="mb-2 text-xs text-gray-500">
+                Images from {content.senderAddress} are always shown.{" "}
+                <button
+                  onClick={() => setSenderImagePreference.mutate({ address: content.senderAddress!, alwaysShowImages: false })}
+                  disabled={setSenderImagePreference.isPending}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  Stop showing automatically
+                </button>
+              </div>
+            )}
+
             {isLoading ? (
               <div className="py-8 text-center text-gray-500">Loading message content...</div>
             ) : content?.html ? (
               <div className="email-content-container">
                 <iframe
-                  srcDoc={sanitizeHtml(content.html)}
+                  srcDoc={wrapMessageHtml(content.html, content.imageOrigins)}
                   className="w-full min-h-[200px] border-0"
-                  sandbox="allow-same-origin"
+                  sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
                   style={{ resize: 'vertical' }}
                   onLoad={(e) => {
                     const iframe = e.target as HTMLIFrameElement;
@@ -103,13 +152,13 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
           </div>
 
           {/* Attachments */}
-          {message.attachments.length > 0 && (
+          {attachments.length > 0 && (
             <div className="border-t px-6 py-4">
               <h4 className="text-sm font-medium text-gray-700 mb-3">
-                Attachments ({message.attachments.length})
+                Attachments ({attachments.length})
               </h4>
               <div className="space-y-2">
-                {message.attachments.map((attachment) => (
+                {attachments.map((attachment) => (
                   <AttachmentItem key={attachment.id} attachment={attachment} />
                 ))}
               </div>
@@ -126,6 +175,16 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
                 <ReplyIcon className="w-4 h-4" />
                 Reply
               </button>
+
+              {onReplyAll && message.to.length + message.cc.length > 1 && (
+                <button 
+                  className="raycast-button gap-2 text-sm"
+                  onClick={() => onReplyAll(message)}
+                >
+                  <ReplyAllIcon className="w-4 h-4" />
+                  Reply all
+                </button>
+              )}
               
               {onForward && (
                 <button 
@@ -136,6 +195,39 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
                   Forward
                 </button>
               )}
+
+              {onToggleStar && (
+                <button 
+                  className="raycast-button gap-2 text-sm"
+                  onClick={() => onToggleStar(message)}
+                >
+                  <StarIcon
+                    className={cn("w-4 h-4", isStarred && "text-yellow-500")}
+                    fill={isStarred ? "currentColor" : "none"}
+                  />
+                  {isStarred ? "Unstar" : "Star"}
+                </button>
+              )}
+
+              {onArchive && (
+                <button 
+                  className="raycast-button gap-2 text-sm"
+                  onClick={onArchive}
+                >
+                  <ArchiveIcon className="w-4 h-4" />
+                  Archive
+                </button>
+              )}
+
+              {onTrash && (
+                <button 
+                  className="raycast-button gap-2 text-sm"
+                  onClick={onTrash}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -144,7 +236,7 @@ export function MessageView({ message, isExpanded: initialExpanded = false, onFo
   );
 }
 
-function AttachmentItem({ attachment }: { attachment: Attachment }) {
+function AttachmentItem({ attachment }: { attachment: Omit<Attachment, "textContent"> }) {
   const { data: attachmentData } = api.gmail.getAttachmentUrl.useQuery({
     attachmentId: attachment.id,
   });
@@ -180,22 +272,15 @@ function AttachmentItem({ attachment }: { attachment: Attachment }) {
   );
 }
 
-// Enhanced HTML sanitization to prevent CSS interference
-function sanitizeHtml(html: string): string {
-  // Create a basic HTML document wrapper to isolate styles
-  const sanitized = html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
-    .replace(/on\w+\s*=\s*"[^"]*"/gi, "")
-    .replace(/on\w+\s*=\s*'[^']*'/gi, "")
-    .replace(/javascript:/gi, "")
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "") // Remove style tags
-    .replace(/style\s*=\s*"[^"]*"/gi, "") // Remove inline styles that might affect layout
-    .replace(/style\s*=\s*'[^']*'/gi, "");
-
-  // Wrap in a container that resets styles
+// Wraps the server-sanitized body in a document with base styles for the iframe.
+// Images may only come from our proxy, data: URLs and the stored inline parts
+function wrapMessageHtml(html: string, imageOrigins: string[]): string {
+  const imageSources = ["'self'", "data:", ...imageOrigins].join(" ");
   return `
     <html>
       <head>
+        <meta http-equiv="Content-Security-Policy" content="script-src 'none'; object-src 'none'; img-src ${imageSources}">
+        <meta name="referrer" content="no-referrer">
         <style>
           body { 
             margin: 0; 
@@ -212,7 +297,7 @@ function sanitizeHtml(html: string): string {
           }
         </style>
       </head>
-      <body>${sanitized}</body>
+      <body>${html}</body>
     </html>
   `;
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  BoldIcon,
+  ItalicIcon,
+  UnderlineIcon,
+  ListIcon,
+  ListOrderedIcon,
+  QuoteIcon,
+  LinkIcon,
+  RemoveFormattingIcon,
+} from "lucide-react";
+import { cn } from "~/lib/utils";
+
+// Pasted images travel inside the message, so keep them to a reasonable size
+const MAX_PASTED_IMAGE_BYTES = 5 * 1024 * 1024;
+
+interface RichTextEditorProps {
+  value: string; // HTML
+  onChange: (html: string) => void;
+  placeholder?: string;
+  minHeight?: string;
+  autoFocus?: boolean;
+}
+
+/**
+ * contentEditable editor with a small formatting toolbar. Pasted images are
+ * embedded as data: URLs; the server turns them into inline parts on send.
+ */
+export function RichTextEditor({ value, onChange, placeholder, minHeight = '200px', autoFocus }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Only write outside changes (a loaded draft, an AI draft) so typing keeps the caret
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) editor.innerHTML = value;
+  }, [value]);
+
+  useEffect(() => {
+    if (autoFocus) editorRef.current?.focus();
+  }, [autoFocus]);
+
+  const emitChange = () => {
+    const editor = editorRef.current;
+    if (editor) onChange(editor.innerHTML);
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const handleLink = () => {
+    const url = prompt("Link address");
+    if (!url?.trim()) return;
+    runCommand("createLink", /^[a-z][a-z0-9+.-]*:/i.test(url.trim()) ? url.trim() : `https://${url.trim()}`);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const images = Array.from(e.clipboardData.files).filter(file => file.type.startsWith("image/"));
+    if (images.length === 0) return;
+
+    e.preventDefault();
+    for (const image of images) {
+      if (image.size > MAX_PASTED_IMAGE_BYTES) {
+        alert(`${image.name || "The image"} is too large to paste; attach it instead`);
+        continue;
+      }
+
+      const reader = new FileReader();
+      reader.onload = () => runCommand("insertImage", reader.result as string);
+      reader.readAsDataURL(image);
+    }
+  };
+
+  const tools = [
+    { title: "Bold", icon: BoldIcon, onClick: () => runCommand("bold") },
+    { title: "Italic", icon: ItalicIcon, onClick: () => runCommand("italic") },
+    { title: "Underline", icon: UnderlineIcon, onClick: () => runCommand("underline") },
+    { title: "Bulleted list", icon: ListIcon, onClick: () => runCommand("insertUnorderedList") },
+    { title: "Numbered list", icon: ListOrderedIcon, onClick: () => runCommand("insertOrderedList") },
+    { title: "Quote", icon: QuoteIcon, onClick: () => runCommand("formatBlock", "blockquote") },
+    { title: "Link", icon: LinkIcon, onClick: handleLink },
+    { title: "Remove formatting", icon: RemoveFormattingIcon, onClick: () => runCommand("removeFormat") },
+  ];
+
+  const isEmpty = !value || value === "<br>";
+
+  return (
+    <div className="raycast-input overflow-hidden" style={{ padding: 0 }}>
+      <div
+        className="flex items-center gap-1 px-2 py-1"
+        style={{ borderBottom: '1px solid var(--color-raycast-border-light)' }}
+      >
+        {tools.map(({ title, icon: Icon, onClick }) => (
+          <button
+            key={title}
+            type="button"
+            // Keep the selection in the editor while clicking the toolbar
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onClick}
+            className="p-1.5 rounded-md transition-colors hover:bg-gray-100"
+            style={{ color: 'var(--color-raycast-text-secondary)' }}
+            title={title}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        {isEmpty && placeholder && (
+          <div className="absolute top-3 left-3 pointer-events-none" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+            {placeholder}
+          </div>
+        )}
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={emitChange}
+          onPaste={handlePaste}
+          className={cn(
+            "p-3 outline-none overflow-y-auto",
+            "[&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6",
+            "[&_blockquote]:pl-3 [&_blockquote]:border-l-2 [&_a]:text-blue-600 [&_a]:underline [&_img]:max-w-full"
+          )}
+          style={{ minHeight, color: 'var(--color-raycast-text)' }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import {
+  SearchIcon,
+  PencilIcon,
+  TrashIcon,
+  CheckIcon,
+  XIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+} from "lucide-react";
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+
+interface SavedSearchListProps {
+  isItemActive: (href: string) => boolean;
+}
+
+export function SavedSearchList({ isItemActive }: SavedSearchListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Unread counts follow new mail and read changes without a reload
+  const { data: savedSearches } = api.gmail.getSavedSearches.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+
+  const utils = api.useUtils();
+  const invalidateSavedSearches = () => void utils.gmail.getSavedSearches.invalidate();
+  const onError = (error: { message: string }) => alert(error.message);
+
+  const updateSavedSearch = api.gmail.updateSavedSearch.useMutation({
+    onSuccess: () => setEditingId(null),
+    onError,
+    onSettled: invalidateSavedSearches,
+  });
+  const deleteSavedSearch = api.gmail.deleteSavedSearch.useMutation({
+    onError,
+    onSettled: invalidateSavedSearches,
+  });
+  const reorderSavedSearches = api.gmail.reorderSavedSearches.useMutation({
+    onMutate: async ({ savedSearchIds }) => {
+      await utils.gmail.getSavedSearches.cancel();
+      utils.gmail.getSavedSearches.setData(undefined, current =>
+        current && savedSearchIds
+          .map(id => current.find(savedSearch => savedSearch.id === id))
+          .filter((savedSearch): savedSearch is NonNullable<typeof savedSearch> => savedSearch !== undefined)
+      );
+    },
+    onError,
+    onSettled: invalidateSavedSearches,
+  });
+
+  if (!savedSearches || savedSearches.length === 0) return null;
+
+  const move = (index: number, offset: number) => {
+    const ids = savedSearches.map(savedSearch => savedSearch.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved!);
+    reorderSavedSearches.mutate({ savedSearchIds: ids });
+  };
+
+  const handleDelete = (savedSearch: { id: string; name: string }) => {
+    if (confirm(`Delete the saved search "${savedSearch.name}"?`)) {
+      deleteSavedSearch.mutate({ savedSearchId: savedSearch.id });
+    }
+  };
+
+  return (
+    <>
+      <div className="pt-4 pb-2 px-3">
+        <h3 className="text-xs font-semibold uppercase" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+          Saved Searches
+        </h3>
+      </div>
+
+      {savedSearches.map((savedSearch, index) => {
+        const href = `/dashboard/saved/${savedSearch.id}`;
+
+        if (editingId === savedSearch.id) {
+          return (
+            <SavedSearchEditor
+              key={savedSearch.id}
+              initialName={savedSearch.name}
+              initialQuery={savedSearch.query}
+              isPending={updateSavedSearch.isPending}
+              onCancel={() => setEditingId(null)}
+              onSave={(name, query) => updateSavedSearch.mutate({ savedSearchId: savedSearch.id, name, query })}
+            />
+          );
+        }
+
+        return (
+          <div
+            key={savedSearch.id}
+            className={cn("raycast-list-item group gap-2 text-sm font-medium", isItemActive(href) && "active")}
+          >
+            <Link href={href} className="flex flex-1 min-w-0 items-center gap-3" title={savedSearch.query}>
+              <SearchIcon className="w-5 h-5 flex-shrink-0" />
+              <span className="truncate">{savedSearch.name}</span>
+            </Link>
+
+            <div className="hidden group-hover:flex items-center gap-1">
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="p-0.5 disabled:opacity-30" title="Move up">
+                <ArrowUpIcon className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === savedSearches.length - 1}
+                className="p-0.5 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDownIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => setEditingId(savedSearch.id)} className="p-0.5" title="Edit saved search">
+                <PencilIcon className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => handleDelete(savedSearch)} className="p-0.5" title="Delete saved search">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {savedSearch.unreadCount > 0 && (
+              <span className="text-xs font-semibold group-hover:hidden" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                {savedSearch.unreadCount}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+interface SavedSearchEditorProps {
+  initialName: string;
+  initialQuery: string;
+  isPending: boolean;
+  onSave: (name: string, query: string) => void;
+  onCancel: () => void;
+}
+
+function SavedSearchEditor({ initialName, initialQuery, isPending, onSave, onCancel }: SavedSearchEditorProps) {
+  const [name, setName] = useState(initialName);
+  const [query, setQuery] = useState(initialQuery);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && query.trim()) onSave(name.trim(), query.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="px-3 py-2 space-y-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+        placeholder="Name"
+        className="raycast-input w-full text-sm"
+        autoFocus
+      />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+        placeholder="from:boss is:unread"
+        className="raycast-input w-full text-sm font-mono"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={isPending || !name.trim() || !query.trim()}
+          className="raycast-button primary gap-1 text-xs disabled:opacity-50"
+        >
+          <CheckIcon className="w-3.5 h-3.5" />
+          {isPending ? "Saving..." : "Save"}
+        </button>
+        <button type="button" onClick={onCancel} className="raycast-button gap-1 text-xs">
+          <XIcon className="w-3.5 h-3.5" />
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -10,21 +10,24 @@ import {
   SendIcon, 
   FileTextIcon,
   TrashIcon,
-  TagIcon,
   RefreshCwIcon,
   MailIcon,
   PenToolIcon,
+  SettingsIcon,
 } from "lucide-react";
 import { cn } from "~/lib/utils";
+import { LabelList } from "./label-list";
+import { SavedSearchList } from "./saved-search-list";
 
+// count: which of the Gmail label's counts to show next to the item, as Gmail does
 const defaultLabels = [
-  { id: "inbox", name: "Inbox", icon: InboxIcon, href: "/dashboard" },
+  { id: "inbox", name: "Inbox", icon: InboxIcon, href: "/dashboard", gmailLabelId: "INBOX", count: "unread" },
   { id: "all", name: "All Mail", icon: MailIcon, href: "/dashboard/all" },
   { id: "starred", name: "Starred", icon: StarIcon, href: "/dashboard/starred" },
   { id: "sent", name: "Sent", icon: SendIcon, href: "/dashboard/sent" },
-  { id: "drafts", name: "Drafts", icon: FileTextIcon, href: "/dashboard/drafts" },
+  { id: "drafts", name: "Drafts", icon: FileTextIcon, href: "/dashboard/drafts", gmailLabelId: "DRAFT", count: "total" },
   { id: "trash", name: "Trash", icon: TrashIcon, href: "/dashboard/trash" },
-];
+] as const;
 
 export function Sidebar() {
   const pathname = usePathname();
@@ -33,6 +36,10 @@ export function Sidebar() {
   const syncMailbox = api.gmail.syncMailbox.useMutation();
   const syncBatch = api.gmail.syncBatch.useMutation();
   const { data: syncStatus } = api.gmail.getSyncStatus.useQuery();
+  const { data: labelCounts } = api.gmail.getLabelCounts.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+  const utils = api.useUtils();
 
   const handleSync = async () => {
     // Prevent multiple sync attempts
@@ -77,10 +84,17 @@ export function Sidebar() {
       // Clear timeout and reset syncing state
       clearTimeout(timeoutId);
       setIsSyncing(false);
+
+      // New mail changes the lists and every count
+      void utils.gmail.getThreads.invalidate();
+      void utils.gmail.getLabelCounts.invalidate();
+      void utils.gmail.getSavedSearches.invalidate();
     }
   };
 
   const userLabels = labels?.filter(label => label.type === "USER") ?? [];
+  const countsByGmailLabelId = new Map(labelCounts?.map(counts => [counts.gmailLabelId, counts]));
+  const countsByLabelId = new Map(labelCounts?.map(counts => [counts.labelId, counts]));
 
   // Helper function to determine if a navigation item should be active
   const isItemActive = (href: string) => {
@@ -129,6 +143,8 @@ export function Sidebar() {
         {defaultLabels.map((label) => {
           const Icon = label.icon;
           const isActive = isItemActive(label.href);
+          const counts = "gmailLabelId" in label ? countsByGmailLabelId.get(label.gmailLabelId) : undefined;
+          const count = counts && "count" in label ? counts[label.count] : 0;
           
           return (
             <Link
@@ -140,40 +156,34 @@ export function Sidebar() {
               )}
             >
               <Icon className="w-5 h-5" />
-              {label.name}
+              <span className="flex-1">{label.name}</span>
+              {count > 0 && (
+                <span
+                  className={cn("text-xs", "count" in label && label.count === "unread" && "font-semibold")}
+                  style={{ color: 'var(--color-raycast-text-secondary)' }}
+                >
+                  {count}
+                </span>
+              )}
             </Link>
           );
         })}
 
-        {userLabels.length > 0 && (
-          <>
-            <div className="pt-4 pb-2 px-3">
-              <h3 className="text-xs font-semibold uppercase" style={{ color: 'var(--color-raycast-text-secondary)' }}>
-                Labels
-              </h3>
-            </div>
-            {userLabels.map((label) => {
-              const href = `/dashboard/label/${label.id}`;
-              const isActive = isItemActive(href);
-              
-              return (
-                <Link
-                  key={label.id}
-                  href={href}
-                  className={cn(
-                    "raycast-list-item gap-3 text-sm font-medium",
-                    isActive && "active"
-                  )}
-                >
-                  <TagIcon className="w-5 h-5" style={{ color: label.color ?? undefined }} />
-                  {label.name}
-                </Link>
-              );
-            })}
-          </>
-        )}
+        <LabelList labels={userLabels} counts={countsByLabelId} isItemActive={isItemActive} />
+
+        <SavedSearchList isItemActive={isItemActive} />
       </nav>
 
+      <div className="px-3 pb-2">
+        <Link
+          href="/dashboard/settings"
+          className={cn("raycast-list-item gap-3 text-sm font-medium", isItemActive("/dashboard/settings") && "active")}
+        >
+          <SettingsIcon className="w-5 h-5" />
+          <span className="flex-1">Settings</span>
+        </Link>
+      </div>
+
       {syncStatus?.lastSyncedAt && (
         <div className="px-4 py-2 text-xs" style={{ 
           color: 'var(--color-raycast-text-tertiary)', 
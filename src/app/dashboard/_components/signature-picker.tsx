@@ -0,0 +1,36 @@
+"use client";
+
+import { SignatureIcon } from "lucide-react";
+import { api } from "~/trpc/react";
+
+interface SignaturePickerProps {
+  value: string | null;
+  onChange: (signatureId: string | null) => void;
+}
+
+// Switches the signature at the end of the message; hidden until the user has signatures
+export function SignaturePicker({ value, onChange }: SignaturePickerProps) {
+  const { data } = api.gmail.getSignatures.useQuery();
+  if (!data || data.signatures.length === 0) return null;
+
+  const showAddresses = new Set(data.signatures.map(signature => signature.sendAsEmail)).size > 1;
+
+  return (
+    <label className="flex items-center gap-2" title="Signature">
+      <SignatureIcon className="w-4 h-4" style={{ color: 'var(--color-raycast-text-secondary)' }} />
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="raycast-input text-sm"
+        style={{ width: 'auto', padding: '4px 8px' }}
+      >
+        <option value="">No signature</option>
+        {data.signatures.map(signature => (
+          <option key={signature.id} value={signature.id}>
+            {showAddresses ? `${signature.name} (${signature.sendAsEmail})` : signature.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -1,13 +1,19 @@
 "use client";
 
-import { useEffect, useRef, useMemo } from "react";
+import { useEffect, useRef, useMemo, useState } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { api } from "~/trpc/react";
 import { formatDistanceToNow } from "date-fns";
-import { StarIcon, MailIcon, MailOpenIcon } from "lucide-react";
-import { cn } from "~/lib/utils";
+import { StarIcon, MailIcon, MailOpenIcon, PaperclipIcon, SquareIcon, SquareCheckIcon, XIcon } from "lucide-react";
+import { cn, getSenderName } from "~/lib/utils";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useIntersection } from "~/hooks/use-intersection";
+import { BulkActionBar, type BatchAction, type BatchProgress } from "./bulk-action-bar";
+import { useShortcuts } from "./keyboard-shortcuts";
+
+// Threads per batchUpdateThreads call (the server's limit); progress moves as each chunk finishes
+const BATCH_SIZE = 100;
 
 interface ThreadListProps {
   labelId?: string;
@@ -19,6 +25,7 @@ interface ThreadListProps {
 
 export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMetrics = false }: ThreadListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
+  const router = useRouter();
 
   const {
     data,
@@ -131,6 +138,141 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
     toggleStar.mutate({ threadId, starred: !currentStarred });
   };
 
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Set once "select all matching" has loaded every id in the view
+  const [matchingSelection, setMatchingSelection] = useState<{ truncated: boolean } | null>(null);
+  const [isSelectingMatching, setIsSelectingMatching] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [failure, setFailure] = useState<{ failed: number; total: number } | null>(null);
+  const lastToggledIndex = useRef<number | null>(null);
+  // Row that j/k move and o/Enter open
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+
+  // A different view starts with nothing selected
+  const viewKey = JSON.stringify({ labelId, unreadOnly, search, advancedSearch });
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setMatchingSelection(null);
+    setFailure(null);
+    setFocusedIndex(null);
+    lastToggledIndex.current = null;
+  }, [viewKey]);
+
+  const batchUpdateThreads = api.gmail.batchUpdateThreads.useMutation();
+
+  const selectedInView = allThreads.filter(thread => selectedIds.has(thread.id)).length;
+  const viewSelection = selectedInView === 0 ? "none" : selectedInView === allThreads.length ? "all" : "some";
+
+  const handleToggleSelectAll = () => {
+    setSelectedIds(viewSelection === "none" ? new Set(allThreads.map(thread => thread.id)) : new Set());
+    setMatchingSelection(null);
+  };
+
+  // Shift-click selects or clears the whole range since the last toggled row
+  const handleToggleSelect = (e: React.MouseEvent, index: number, threadId: string) => {
+    e.preventDefault();
+    const select = !selectedIds.has(threadId);
+    const from = e.shiftKey && lastToggledIndex.current !== null ? Math.min(lastToggledIndex.current, index) : index;
+    const to = e.shiftKey && lastToggledIndex.current !== null ? Math.max(lastToggledIndex.current, index) : index;
+
+    const next = new Set(selectedIds);
+    for (const thread of allThreads.slice(from, to + 1)) {
+      if (select) next.add(thread.id);
+      else next.delete(thread.id);
+    }
+    setSelectedIds(next);
+    setMatchingSelection(null);
+    lastToggledIndex.current = index;
+  };
+
+  const handleSelectAllMatching = async () => {
+    setIsSelectingMatching(true);
+    try {
+      const result = await utils.gmail.getThreadIds.fetch({ labelId, unreadOnly, search, advancedSearch });
+      setSelectedIds(new Set(result.threadIds));
+      setMatchingSelection({ truncated: result.truncated });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to select conversations");
+    } finally {
+      setIsSelectingMatching(false);
+    }
+  };
+
+  const handleBatchAction = async (action: BatchAction, description: string, threadIds = [...selectedIds]) => {
+    const failedIds: string[] = [];
+    setFailure(null);
+    setProgress({ description, done: 0, total: threadIds.length });
+
+    for (let i = 0; i < threadIds.length; i += BATCH_SIZE) {
+      const chunk = threadIds.slice(i, i + BATCH_SIZE);
+      try {
+        const result = await batchUpdateThreads.mutateAsync({ threadIds: chunk, action });
+        failedIds.push(...result.failedThreadIds);
+      } catch (error) {
+        console.error(`Batch ${action.type} failed for ${chunk.length} threads:`, error);
+        failedIds.push(...chunk);
+      }
+      setProgress({ description, done: Math.min(i + BATCH_SIZE, threadIds.length), total: threadIds.length });
+    }
+
+    setProgress(null);
+    // Threads that failed stay selected so the action can be retried
+    setSelectedIds(new Set(failedIds));
+    setMatchingSelection(null);
+    if (failedIds.length > 0) {
+      setFailure({ failed: failedIds.length, total: threadIds.length });
+    }
+
+    void utils.gmail.getThreads.invalidate();
+    void utils.gmail.getThread.invalidate();
+    void utils.gmail.getLabelCounts.invalidate();
+    void utils.gmail.getSavedSearches.invalidate();
+  };
+
+  const moveFocus = (offset: number) => {
+    if (allThreads.length === 0) return;
+    const index = focusedIndex === null
+      ? 0
+      : Math.min(Math.max(focusedIndex + offset, 0), allThreads.length - 1);
+    setFocusedIndex(index);
+    rowVirtualizer.scrollToIndex(index, { align: "auto" });
+
+    if (index === allThreads.length - 1 && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  };
+
+  const focusedThread = focusedIndex !== null ? allThreads[focusedIndex] : undefined;
+
+  // Like Gmail, actions apply to the selection when there is one, otherwise to the focused row
+  const runShortcutAction = (action: BatchAction, description: string) => {
+    if (progress) return;
+    if (selectedIds.size > 0) {
+      void handleBatchAction(action, description);
+    } else if (focusedThread) {
+      void handleBatchAction(action, description, [focusedThread.id]);
+    }
+  };
+
+  useShortcuts("list", {
+    nextThread: () => moveFocus(1),
+    previousThread: () => moveFocus(-1),
+    openThread: () => {
+      if (focusedThread) router.push(`/dashboard/thread/${focusedThread.id}`);
+    },
+    archive: () => runShortcutAction({ type: "archive" }, "Archiving"),
+    trash: () => runShortcutAction({ type: "trash" }, "Moving to trash"),
+    star: () => {
+      if (selectedIds.size > 0) {
+        // Stars everything unless the whole selection in view is already starred
+        const allStarred = allThreads.filter(thread => selectedIds.has(thread.id)).every(thread => thread.starred);
+        runShortcutAction(allStarred ? { type: "unstar" } : { type: "star" }, allStarred ? "Removing stars" : "Starring");
+      } else if (focusedThread) {
+        toggleStar.mutate({ threadId: focusedThread.id, starred: !focusedThread.starred });
+      }
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -175,6 +317,60 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
           </span>
         </div>
       )}
+
+      <BulkActionBar
+        viewSelection={viewSelection}
+        selectedCount={selectedIds.size}
+        progress={progress}
+        onToggleSelectAll={handleToggleSelectAll}
+        onAction={(action, description) => void handleBatchAction(action, description)}
+      />
+
+      {viewSelection === "all" && !progress && (matchingSelection || hasNextPage) && (
+        <div
+          className="px-6 py-2 text-sm text-center"
+          style={{
+            backgroundColor: 'var(--color-raycast-bg-tertiary)',
+            color: 'var(--color-raycast-text-secondary)',
+          }}
+        >
+          {matchingSelection ? (
+            <>
+              All {selectedIds.size.toLocaleString()} conversations in this view are selected
+              {matchingSelection.truncated && " (the most recent ones; there are more)"}.{" "}
+              <button onClick={handleToggleSelectAll} className="font-medium underline">
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              All {allThreads.length.toLocaleString()} loaded conversations are selected.{" "}
+              <button
+                onClick={() => void handleSelectAllMatching()}
+                disabled={isSelectingMatching}
+                className="font-medium underline disabled:opacity-50"
+              >
+                {isSelectingMatching ? "Selecting..." : "Select all conversations in this view"}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {failure && (
+        <div
+          className="flex items-center justify-between gap-3 px-6 py-2 text-sm"
+          style={{ backgroundColor: '#fef2f2', color: 'var(--color-raycast-error)' }}
+        >
+          <span>
+            {failure.failed.toLocaleString()} of {failure.total.toLocaleString()} conversations couldn't be updated.
+            They're still selected so you can try again.
+          </span>
+          <button onClick={() => setFailure(null)} className="p-0.5" title="Dismiss">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       
       <div ref={parentRef} className="flex-1 overflow-auto p-4">
         <div
@@ -189,8 +385,10 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
           if (!thread) return null;
 
           const from = thread.messages[0]?.from ?? "Unknown";
-          const fromName = from.split("<")[0]?.trim() ?? from;
+          const fromName = getSenderName(from);
           const labels = thread.labelThreads.map((lt) => lt.label);
+          const selected = selectedIds.has(thread.id);
+          const focused = focusedIndex === virtualItem.index;
 
           return (
             <Link
@@ -217,8 +415,23 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
                     ? 'var(--color-raycast-selected)' 
                     : 'var(--color-raycast-surface)',
                   height: 'calc(100% - 8px)', // Account for card spacing
+                  outline: focused ? '2px solid var(--color-raycast-accent)' : undefined,
+                  outlineOffset: '-2px',
                 }}
               >
+                <button
+                  onClick={(e) => handleToggleSelect(e, virtualItem.index, thread.id)}
+                  className="p-1 rounded-md transition-colors"
+                  style={{
+                    color: selected
+                      ? 'var(--color-raycast-accent)'
+                      : 'var(--color-raycast-text-tertiary)',
+                  }}
+                  title={selected ? "Deselect" : "Select"}
+                >
+                  {selected ? <SquareCheckIcon className="w-4 h-4" /> : <SquareIcon className="w-4 h-4" />}
+                </button>
+
                 <button
                   onClick={(e) => handleToggleStar(e, thread.id, thread.starred)}
                   className={cn(
@@ -276,8 +489,24 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
                     className="text-xs truncate"
                     style={{ color: 'var(--color-raycast-text-tertiary)' }}
                   >
-                    {thread.snippet}
+                    {thread.searchHighlight?.snippet
+                      ? <HighlightedText segments={thread.searchHighlight.snippet} />
+                      : thread.snippet}
                   </div>
+                  {thread.searchHighlight?.attachment && (
+                    <div
+                      className="text-xs truncate mt-1 flex items-center gap-1"
+                      style={{ color: 'var(--color-raycast-text-tertiary)' }}
+                    >
+                      <PaperclipIcon className="w-3 h-3 flex-shrink-0" />
+                      <span className="font-medium" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                        {thread.searchHighlight.attachment.filename}
+                      </span>
+                      <span className="truncate">
+                        <HighlightedText segments={thread.searchHighlight.attachment.snippet} />
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div 
@@ -310,4 +539,25 @@ export function ThreadList({ labelId, unreadOnly, search, advancedSearch, showMe
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Search snippets with the matched terms marked
+function HighlightedText({ segments }: { segments: Array<{ text: string; highlighted: boolean }> }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm px-0.5"
+            style={{ backgroundColor: '#fef08a', color: 'var(--color-raycast-text)' }}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -1,14 +1,121 @@
 "use client";
 
-import { ThreadList } from "../_components/thread-list";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { FileTextIcon, PaperclipIcon, TrashIcon } from "lucide-react";
+import { api } from "~/trpc/react";
 
 export default function DraftsPage() {
+  const { data: drafts, isLoading, isError } = api.gmail.getDrafts.useQuery();
+  const utils = api.useUtils();
+  const deleteDraft = api.gmail.deleteDraft.useMutation({
+    onError: (error) => alert(error.message),
+    onSettled: () => {
+      void utils.gmail.getDrafts.invalidate();
+    },
+  });
+
+  const handleDelete = (e: React.MouseEvent, draftId: string) => {
+    e.preventDefault();
+    if (confirm("Discard this draft?")) {
+      deleteDraft.mutate({ draftId });
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div style={{ color: 'var(--color-raycast-text-secondary)' }}>
+            Loading drafts...
+          </div>
+        </div>
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div style={{ color: 'var(--color-raycast-error)' }}>
+            Failed to load drafts
+          </div>
+        </div>
+      );
+    }
+
+    if (!drafts?.length) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div style={{ color: 'var(--color-raycast-text-secondary)' }}>
+            No drafts
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {drafts.map(draft => {
+          // Reply drafts reopen inside their thread, new messages in the composer
+          const href = draft.threadId
+            ? `/dashboard/thread/${draft.threadId}?draftId=${draft.id}`
+            : `/dashboard/compose?draftId=${draft.id}`;
+
+          return (
+            <Link key={draft.id} href={href} className="block">
+              <div className="raycast-card group flex items-center gap-3 px-4 py-3" style={{ backgroundColor: 'var(--color-raycast-surface)' }}>
+                <FileTextIcon className="w-5 h-5 flex-shrink-0" style={{ color: 'var(--color-raycast-text-tertiary)' }} />
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-medium" style={{ color: 'var(--color-raycast-error)' }}>
+                      Draft
+                    </span>
+                    <span className="truncate text-sm font-medium" style={{ color: 'var(--color-raycast-text)' }}>
+                      {draft.to.length > 0 ? draft.to.join(", ") : "(no recipients)"}
+                    </span>
+                    {draft.attachmentS3Keys.length > 0 && (
+                      <PaperclipIcon className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--color-raycast-text-tertiary)' }} />
+                    )}
+                  </div>
+                  <div className="text-sm truncate mb-1" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                    {draft.subject || "(no subject)"}
+                  </div>
+                  <div className="text-xs truncate" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+                    {draft.textContent.slice(0, 200)}
+                  </div>
+                </div>
+
+                <div className="text-xs whitespace-nowrap font-medium" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+                  {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}
+                </div>
+
+                <button
+                  onClick={(e) => handleDelete(e, draft.id)}
+                  disabled={deleteDraft.isPending}
+                  className="p-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+                  style={{ color: 'var(--color-raycast-text-secondary)' }}
+                  title="Discard draft"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    );
+  };
+
   return (
-    <div className="h-full">
+    <div className="h-full flex flex-col">
       <div className="p-6 border-b">
         <h1 className="text-xl font-semibold text-gray-900">Drafts</h1>
+        <p className="text-sm mt-1" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+          Drafts written here. Drafts started in Gmail itself are not imported and stay in Gmail.
+        </p>
       </div>
-      <ThreadList labelId="DRAFT" />
+      {renderBody()}
     </div>
   );
-}
\ No newline at end of file
+}
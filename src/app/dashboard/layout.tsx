@@ -2,6 +2,7 @@ import { redirect } from "next/navigation";
 import { auth } from "~/server/auth";
 import { Sidebar } from "./_components/sidebar";
 import { Header } from "./_components/header";
+import { KeyboardShortcutsProvider } from "./_components/keyboard-shortcuts";
 
 export default async function DashboardLayout({
   children,
@@ -15,16 +16,18 @@ export default async function DashboardLayout({
   }
 
   return (
-    <div className="flex h-screen" style={{ backgroundColor: 'var(--color-raycast-bg-secondary)' }}>
-      <Sidebar />
-      <div className="flex-1 flex flex-col overflow-hidden min-w-0">
-        <Header />
-        <main className="flex-1 overflow-x-auto overflow-y-auto" style={{ backgroundColor: 'var(--color-raycast-bg)' }}>
-          <div className="p-6">
-            {children}
-          </div>
-        </main>
+    <KeyboardShortcutsProvider>
+      <div className="flex h-screen" style={{ backgroundColor: 'var(--color-raycast-bg-secondary)' }}>
+        <Sidebar />
+        <div className="flex-1 flex flex-col overflow-hidden min-w-0">
+          <Header />
+          <main className="flex-1 overflow-x-auto overflow-y-auto" style={{ backgroundColor: 'var(--color-raycast-bg)' }}>
+            <div className="p-6">
+              {children}
+            </div>
+          </main>
+        </div>
       </div>
-    </div>
+    </KeyboardShortcutsProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { api } from "~/trpc/react";
+import { ThreadList } from "../../_components/thread-list";
+
+export default function SavedSearchPage() {
+  const params = useParams();
+  const savedSearchId = params.savedSearchId as string;
+
+  const { data: savedSearches, isLoading } = api.gmail.getSavedSearches.useQuery();
+  const savedSearch = savedSearches?.find(s => s.id === savedSearchId);
+
+  return (
+    <div className="h-full">
+      <div className="p-6" style={{ borderBottom: '1px solid var(--color-raycast-border-light)' }}>
+        <h1 className="text-xl font-semibold" style={{ color: 'var(--color-raycast-text)' }}>
+          {savedSearch ? savedSearch.name : isLoading ? "Saved search" : "Saved search not found"}
+        </h1>
+        {savedSearch && (
+          <div className="mt-1 text-sm font-mono" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+            {savedSearch.query}
+          </div>
+        )}
+      </div>
+      {savedSearch && <ThreadList search={savedSearch.query} showMetrics={true} />}
+    </div>
+  );
+}
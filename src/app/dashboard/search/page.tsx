@@ -1,75 +1,53 @@
 "use client";
 
-import { useSearchParams } from "next/navigation";
-import { useMemo } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { BookmarkPlusIcon } from "lucide-react";
 import { api } from "~/trpc/react";
 import { ThreadList } from "../_components/thread-list";
 
 export default function SearchPage() {
+  const router = useRouter();
   const searchParams = useSearchParams();
+  // Gmail-style query, e.g. from:jane has:attachment -is:read
   const query = searchParams.get("q") || "";
-  const advancedParam = searchParams.get("advanced");
-  
-  const { searchQuery, advancedSearch, searchTitle } = useMemo(() => {
-    let parsedAdvanced = null;
-    let title = "";
-    
-    if (advancedParam) {
-      try {
-        parsedAdvanced = JSON.parse(advancedParam);
-        
-        // Convert date strings to Date objects
-        if (parsedAdvanced.dateAfter) {
-          parsedAdvanced.dateAfter = new Date(parsedAdvanced.dateAfter);
-        }
-        if (parsedAdvanced.dateBefore) {
-          parsedAdvanced.dateBefore = new Date(parsedAdvanced.dateBefore);
-        }
-        
-        // Build a descriptive title for advanced search
-        const filters = [];
-        if (parsedAdvanced.subject) filters.push(`subject:"${parsedAdvanced.subject}"`);
-        if (parsedAdvanced.from) filters.push(`from:"${parsedAdvanced.from}"`);
-        if (parsedAdvanced.to) filters.push(`to:"${parsedAdvanced.to}"`);
-        if (parsedAdvanced.content) filters.push(`content:"${parsedAdvanced.content}"`);
-        if (parsedAdvanced.dateRange) filters.push(`${parsedAdvanced.dateRange}`);
-        if (parsedAdvanced.hasAttachments) filters.push("has:attachments");
-        if (parsedAdvanced.isStarred) filters.push("is:starred");
-        if (parsedAdvanced.isImportant) filters.push("is:important");
-        if (parsedAdvanced.isUnread) filters.push("is:unread");
-        
-        title = filters.length > 0 ? filters.join(' and ') : "Advanced search";
-      } catch (e) {
-        console.error("Failed to parse advanced search:", e);
-      }
-    } else if (query) {
-      title = `"${query}"`;
+
+  const utils = api.useUtils();
+  const createSavedSearch = api.gmail.createSavedSearch.useMutation({
+    onSuccess: (savedSearch) => {
+      void utils.gmail.getSavedSearches.invalidate();
+      router.push(`/dashboard/saved/${savedSearch.id}`);
+    },
+    onError: (error) => alert(error.message),
+  });
+
+  const handleSave = () => {
+    const name = prompt("Name this search", query);
+    if (name?.trim()) {
+      createSavedSearch.mutate({ name: name.trim(), query });
     }
-    
-    return {
-      searchQuery: query,
-      advancedSearch: parsedAdvanced,
-      searchTitle: title || "Search"
-    };
-  }, [query, advancedParam]);
+  };
 
   return (
     <div className="h-full">
-      <div className="p-6" style={{ borderBottom: '1px solid var(--color-raycast-border-light)' }}>
+      <div className="p-6 flex items-center justify-between gap-4" style={{ borderBottom: '1px solid var(--color-raycast-border-light)' }}>
         <h1 className="text-xl font-semibold" style={{ color: 'var(--color-raycast-text)' }}>
-          Search results for {searchTitle}
+          {query ? <>Search results for <span className="font-mono">{query}</span></> : "Search"}
         </h1>
-        {advancedSearch && (
-          <div className="mt-2 text-sm" style={{ color: 'var(--color-raycast-text-secondary)' }}>
-            Advanced search with {Object.keys(advancedSearch).length - 1} filter(s)
-          </div>
+        {query && (
+          <button
+            onClick={handleSave}
+            disabled={createSavedSearch.isPending}
+            className="raycast-button gap-2 text-sm flex-shrink-0 disabled:opacity-50"
+          >
+            <BookmarkPlusIcon className="w-4 h-4" />
+            {createSavedSearch.isPending ? "Saving..." : "Save search"}
+          </button>
         )}
       </div>
       <ThreadList 
-        search={searchQuery} 
-        advancedSearch={advancedSearch || undefined}
+        search={query || undefined} 
         showMetrics={true}
       />
     </div>
   );
-}
\ No newline at end of file
+}
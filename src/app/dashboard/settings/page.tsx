@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { DownloadIcon, PencilIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { api } from "~/trpc/react";
+import { RichTextEditor } from "../_components/rich-text-editor";
+
+interface SignatureForm {
+  signatureId: string | null; // null while creating
+  name: string;
+  html: string;
+  sendAsEmail: string;
+}
+
+export default function SettingsPage() {
+  const [form, setForm] = useState<SignatureForm | null>(null);
+  const { data, isLoading, isError } = api.gmail.getSignatures.useQuery();
+
+  const utils = api.useUtils();
+  const invalidateSignatures = () => void utils.gmail.getSignatures.invalidate();
+  const onError = (error: { message: string }) => alert(error.message);
+
+  const createSignature = api.gmail.createSignature.useMutation({
+    onSuccess: () => setForm(null),
+    onError,
+    onSettled: invalidateSignatures,
+  });
+  const updateSignature = api.gmail.updateSignature.useMutation({
+    onSuccess: () => setForm(null),
+    onError,
+    onSettled: invalidateSignatures,
+  });
+  const deleteSignature = api.gmail.deleteSignature.useMutation({
+    onError,
+    onSettled: invalidateSignatures,
+  });
+  const setDefaultSignature = api.gmail.setDefaultSignature.useMutation({
+    onError,
+    onSettled: invalidateSignatures,
+  });
+  const importGmailSignatures = api.gmail.importGmailSignatures.useMutation({
+    onSuccess: ({ imported }) => {
+      if (imported === 0) alert("Gmail has no signatures to import");
+    },
+    onError,
+    onSettled: invalidateSignatures,
+  });
+
+  const handleSave = () => {
+    if (!form?.name.trim()) {
+      alert("Please give the signature a name");
+      return;
+    }
+
+    if (form.signatureId) {
+      updateSignature.mutate({ signatureId: form.signatureId, name: form.name.trim(), html: form.html });
+    } else {
+      createSignature.mutate({ name: form.name.trim(), html: form.html, sendAsEmail: form.sendAsEmail });
+    }
+  };
+
+  const handleDelete = (signature: { id: string; name: string }) => {
+    if (confirm(`Delete the signature "${signature.name}"?`)) {
+      deleteSignature.mutate({ signatureId: signature.id });
+    }
+  };
+
+  const renderForm = (current: SignatureForm) => (
+    <div className="raycast-card p-4 space-y-3" style={{ backgroundColor: 'var(--color-raycast-surface)' }}>
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={current.name}
+          onChange={(e) => setForm({ ...current, name: e.target.value })}
+          placeholder="Signature name"
+          className="raycast-input flex-1"
+          autoFocus
+        />
+        {!current.signatureId && data && (
+          <select
+            value={current.sendAsEmail}
+            onChange={(e) => setForm({ ...current, sendAsEmail: e.target.value })}
+            className="raycast-input"
+            style={{ width: 'auto' }}
+            title="Address this signature is for"
+          >
+            {data.sendAsAddresses.map(address => (
+              <option key={address} value={address}>{address}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <RichTextEditor
+        value={current.html}
+        onChange={(html) => setForm(form => form && { ...form, html })}
+        placeholder="Your signature..."
+        minHeight="120px"
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setForm(null)} className="raycast-button">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={createSignature.isPending || updateSignature.isPending}
+          className="raycast-button primary"
+        >
+          {createSignature.isPending || updateSignature.isPending ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div style={{ color: 'var(--color-raycast-text-secondary)' }}>
+            Loading settings...
+          </div>
+        </div>
+      );
+    }
+
+    if (isError || !data) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <div style={{ color: 'var(--color-raycast-error)' }}>
+            Failed to load settings
+          </div>
+        </div>
+      );
+    }
+
+    const addresses = data.sendAsAddresses.length > 0
+      ? data.sendAsAddresses
+      : [...new Set(data.signatures.map(signature => signature.sendAsEmail))];
+
+    return (
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold" style={{ color: 'var(--color-raycast-text)' }}>
+              Signatures
+            </h2>
+            <p className="text-sm" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+              Added to the end of new messages, replies and forwards. You can switch them while writing.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => importGmailSignatures.mutate()}
+              disabled={importGmailSignatures.isPending}
+              className="raycast-button gap-2"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              {importGmailSignatures.isPending ? "Importing..." : "Import from Gmail"}
+            </button>
+            <button
+              onClick={() => setForm({ signatureId: null, name: "", html: "", sendAsEmail: addresses[0] ?? "" })}
+              disabled={addresses.length === 0}
+              className="raycast-button primary gap-2"
+            >
+              <PlusIcon className="w-4 h-4" />
+              New signature
+            </button>
+          </div>
+        </div>
+
+        {form && !form.signatureId && renderForm(form)}
+
+        {addresses.map(address => {
+          const signatures = data.signatures.filter(signature => signature.sendAsEmail === address);
+          const defaultFor = (kind: "new" | "reply") => signatures.find(signature =>
+            kind === "new" ? signature.defaultForNew : signature.defaultForReplies
+          )?.id ?? "";
+
+          return (
+            <div key={address} className="space-y-3">
+              <h3 className="text-xs font-semibold uppercase" style={{ color: 'var(--color-raycast-text-secondary)' }}>
+                {address}
+              </h3>
+
+              {signatures.length === 0 ? (
+                <div className="text-sm" style={{ color: 'var(--color-raycast-text-tertiary)' }}>
+                  No signatures
+                </div>
+              ) : (
+                <div className="flex gap-6 text-sm" style={{ color: 'var(--color-raycast-text)' }}>
+                  {([["new", "For new messages"], ["reply", "For replies and forwards"]] as const).map(([kind, label]) => (
+                    <label key={kind} className="flex items-center gap-2">
+                      {label}
+                      <select
+                        value={defaultFor(kind)}
+                        onChange={(e) => setDefaultSignature.mutate({
+                          sendAsEmail: address,
+                          kind,
+                          signatureId: e.target.value || null,
+                        })}
+                        disabled={setDefaultSignature.isPending}
+                        className="raycast-input text-sm"
+                        style={{ width: 'auto', padding: '4px 8px' }}
+                      >
+                        <option value="">No signature</option>
+                        {signatures.map(signature => (
+                          <option key={signature.id} value={signature.id}>{signature.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {signatures.map(signature => form?.signatureId === signature.id ? (
+                <div key={signature.id}>{renderForm(form)}</div>
+              ) : (
+                <div
+                  key={signature.id}
+                  className="raycast-card group p-4"
+                  style={{ backgroundColor: 'var(--color-raycast-surface)' }}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="flex-1 text-sm font-medium" style={{ color: 'var(--color-raycast-text)' }}>
+                      {signature.name}
+                    </span>
+                    <button
+                      onClick={() => setForm({
+                        signatureId: signature.id,
+                        name: signature.name,
+                        html: signature.html,
+                        sendAsEmail: signature.sendAsEmail,
+                      })}
+                      className="p-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+                      style={{ color: 'var(--color-raycast-text-secondary)' }}
+                      title="Edit signature"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(signature)}
+                      disabled={deleteSignature.isPending}
+                      className="p-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+                      style={{ color: 'var(--color-raycast-text-secondary)' }}
+                      title="Delete signature"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {/* Sanitized by the server when the signature was saved */}
+                  <div
+                    className="text-sm [&_a]:text-blue-600 [&_a]:underline [&_img]:max-w-full"
+                    style={{ color: 'var(--color-raycast-text-secondary)' }}
+                    dangerouslySetInnerHTML={{ __html: signature.html }}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-6 border-b">
+        <h1 className="text-xl font-semibold text-gray-900">Settings</h1>
+      </div>
+      {renderBody()}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
-import { useParams, useRouter } from "next/navigation";
-import { useRef } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useRef } from "react";
 import { api } from "~/trpc/react";
 import { MessageView } from "../../_components/message-view";
 import { ComposeReply, type ComposeReplyHandle } from "../../_components/compose-reply";
-import { ArrowLeftIcon, StarIcon } from "lucide-react";
+import { LabelPicker } from "../../_components/label-picker";
+import { useShortcuts } from "../../_components/keyboard-shortcuts";
+import { ArrowLeftIcon, ArchiveIcon, MailIcon, StarIcon, TrashIcon, Trash2Icon, UndoIcon } from "lucide-react";
 import { cn } from "~/lib/utils";
 import type { Message } from "@prisma/client";
 
@@ -13,21 +15,37 @@ export default function ThreadPage() {
   const params = useParams();
   const router = useRouter();
   const threadId = params.threadId as string;
+  const draftId = useSearchParams().get("draftId");
   const composeReplyRef = useRef<ComposeReplyHandle>(null);
 
   const { data: thread, isLoading, error } = api.gmail.getThread.useQuery({ threadId });
   const utils = api.useUtils();
   const toggleStar = api.gmail.toggleStar.useMutation({
-    onMutate: async ({ threadId, starred }) => {
+    onMutate: async ({ threadId, starred, messageId }) => {
       // Cancel outgoing refetches
       await utils.gmail.getThread.cancel({ threadId });
 
       // Snapshot previous value
       const previousThread = utils.gmail.getThread.getData({ threadId });
 
-      // Optimistically update
+      // Optimistically update; a single message only affects the thread flag when starring
       utils.gmail.getThread.setData({ threadId }, (old) => {
         if (!old) return old;
+        if (messageId) {
+          return {
+            ...old,
+            starred: starred || old.messages.some((m) => m.id !== messageId && m.labelIds.includes("STARRED")),
+            messages: old.messages.map((m) => m.id === messageId
+              ? {
+                  ...m,
+                  labelIds: starred
+                    ? [...m.labelIds, "STARRED"]
+                    : m.labelIds.filter((labelId) => labelId !== "STARRED"),
+                }
+              : m
+            ),
+          };
+        }
         return { ...old, starred };
       });
 
@@ -46,6 +64,81 @@ export default function ThreadPage() {
     },
   });
 
+  // Read state and label changes move the sidebar counts
+  const invalidateCounts = () => {
+    void utils.gmail.getLabelCounts.invalidate();
+    void utils.gmail.getSavedSearches.invalidate();
+  };
+
+  const markRead = api.gmail.markRead.useMutation({
+    onSettled: () => {
+      void utils.gmail.getThread.invalidate({ threadId });
+      void utils.gmail.getThreads.invalidate();
+      invalidateCounts();
+    },
+  });
+  const markUnread = api.gmail.markUnread.useMutation({
+    onSuccess: () => {
+      router.back();
+    },
+    onSettled: () => {
+      void utils.gmail.getThread.invalidate({ threadId });
+      void utils.gmail.getThreads.invalidate();
+      invalidateCounts();
+    },
+  });
+
+  // Archive, trash and delete take the thread out of the current view, so return to the list
+  const threadActionOptions = {
+    onSuccess: () => {
+      void utils.gmail.getThreads.invalidate();
+      invalidateCounts();
+      router.back();
+    },
+    onError: (error: { message: string }) => {
+      alert(error.message);
+      void utils.gmail.getThread.invalidate({ threadId });
+    },
+  };
+  const archive = api.gmail.archive.useMutation(threadActionOptions);
+  const trash = api.gmail.trash.useMutation(threadActionOptions);
+  const deletePermanently = api.gmail.deletePermanently.useMutation(threadActionOptions);
+  const untrash = api.gmail.untrash.useMutation({
+    onSettled: () => {
+      void utils.gmail.getThread.invalidate({ threadId });
+      void utils.gmail.getThreads.invalidate();
+      invalidateCounts();
+    },
+  });
+
+  // Shortcuts act on the whole thread, or on its latest message for replies and forwards
+  const latestMessage = thread?.messages[thread.messages.length - 1];
+  const threadGmailLabelIds = thread?.labelThreads.map((lt) => lt.label.gmailLabelId) ?? [];
+  useShortcuts("thread", {
+    backToList: () => router.back(),
+    archive: () => {
+      if (thread && threadGmailLabelIds.includes("INBOX")) archive.mutate({ threadId: thread.id });
+    },
+    trash: () => {
+      if (thread && !threadGmailLabelIds.includes("TRASH")) trash.mutate({ threadId: thread.id });
+    },
+    star: () => {
+      if (thread) toggleStar.mutate({ threadId: thread.id, starred: !thread.starred });
+    },
+    reply: () => latestMessage && handleReply(latestMessage),
+    replyAll: () => latestMessage && handleReplyAll(latestMessage),
+    forward: () => latestMessage && handleForward(latestMessage),
+  });
+
+  // Opening an unread thread marks it read in Gmail as well
+  const markedReadRef = useRef(false);
+  useEffect(() => {
+    if (thread?.unread && !markedReadRef.current) {
+      markedReadRef.current = true;
+      markRead.mutate({ threadId: thread.id });
+    }
+  }, [thread?.id, thread?.unread]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -67,29 +160,41 @@ export default function ThreadPage() {
     toggleStar.mutate({ threadId: thread.id, starred: !thread.starred });
   };
 
-  const handleReply = (message: Message) => {
-    composeReplyRef.current?.startReply(message);
+  const isInInbox = threadGmailLabelIds.includes("INBOX");
+  const isTrashed = threadGmailLabelIds.includes("TRASH");
+  const isThreadActionPending = archive.isPending || trash.isPending || untrash.isPending || deletePermanently.isPending;
+
+  const handleArchive = () => archive.mutate({ threadId: thread.id });
+  const handleTrash = () => trash.mutate({ threadId: thread.id });
+
+  const handleDeletePermanently = () => {
+    if (confirm("Delete this conversation forever? This cannot be undone.")) {
+      deletePermanently.mutate({ threadId: thread.id });
+    }
   };
 
-  const handleForward = (message: Message) => {
-    // Navigate to compose page with forward parameters
-    const forwardData = {
-      type: 'forward',
-      originalSubject: message.subject,
-      originalFrom: message.from,
-      originalDate: message.date.toISOString(),
-      originalContent: message.snippet, // We'll get full content in the compose page
-      originalMessageId: message.id,
-    };
-    
-    const params = new URLSearchParams();
-    Object.entries(forwardData).forEach(([key, value]) => {
-      params.set(key, value.toString());
+  const handleToggleMessageStar = (message: Message) => {
+    toggleStar.mutate({
+      threadId: thread.id,
+      messageId: message.id,
+      starred: !message.labelIds.includes("STARRED"),
     });
-    
-    router.push(`/dashboard/compose?${params.toString()}`);
   };
 
+  function handleReply(message: Message) {
+    composeReplyRef.current?.startReply(message);
+  }
+
+  function handleReplyAll(message: Message) {
+    composeReplyRef.current?.startReply(message, { replyAll: true });
+  }
+
+  function handleForward(message: Message) {
+    // The compose page loads the original and the server builds the forward from it
+    const params = new URLSearchParams({ type: 'forward', originalMessageId: message.id });
+    router.push(`/dashboard/compose?${params.toString()}`);
+  }
+
   return (
     <div className="h-full flex flex-col bg-gray-50">
       {/* Thread Header */}
@@ -123,6 +228,57 @@ export default function ThreadPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            <LabelPicker
+              threadId={thread.id}
+              appliedLabelIds={thread.labelThreads.map((lt) => lt.label.id)}
+            />
+            {isInInbox && (
+              <button
+                onClick={handleArchive}
+                disabled={isThreadActionPending}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-400 disabled:opacity-50"
+                title="Archive"
+              >
+                <ArchiveIcon className="w-5 h-5" />
+              </button>
+            )}
+            {isTrashed ? (
+              <>
+                <button
+                  onClick={() => untrash.mutate({ threadId: thread.id })}
+                  disabled={isThreadActionPending}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-400 disabled:opacity-50"
+                  title="Restore from trash"
+                >
+                  <UndoIcon className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleDeletePermanently}
+                  disabled={isThreadActionPending}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-red-500 disabled:opacity-50"
+                  title="Delete forever"
+                >
+                  <Trash2Icon className="w-5 h-5" />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleTrash}
+                disabled={isThreadActionPending}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-400 disabled:opacity-50"
+                title="Move to trash"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => markUnread.mutate({ threadId: thread.id })}
+              disabled={markUnread.isPending}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-400 disabled:opacity-50"
+              title="Mark as unread"
+            >
+              <MailIcon className="w-5 h-5" />
+            </button>
             <button
               onClick={handleToggleStar}
               className={cn(
@@ -146,13 +302,17 @@ export default function ThreadPage() {
             isExpanded={index === thread.messages.length - 1}
             onForward={handleForward}
             onReply={handleReply}
+            onReplyAll={handleReplyAll}
+            onToggleStar={handleToggleMessageStar}
+            onArchive={isInInbox ? handleArchive : undefined}
+            onTrash={isTrashed ? undefined : handleTrash}
           />
         ))}
       </div>
 
       {/* Reply Composer */}
       <div className="border-t bg-white">
-        <ComposeReply ref={composeReplyRef} threadId={thread.id} />
+        <ComposeReply ref={composeReplyRef} threadId={thread.id} draftId={draftId} />
       </div>
     </div>
   );
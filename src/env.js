@@ -24,6 +24,7 @@ export const env = createEnv({
     S3_BUCKET_NAME: z.string(),
     GOOGLE_GEMINI_API_KEY: z.string().optional(),
     GMAIL_WEBHOOK_SECRET: z.string().optional(),
+    GMAIL_PUBSUB_TOPIC: z.string().optional(),
     CRON_SECRET: z.string().optional(),
   },
 
@@ -53,6 +54,7 @@ export const env = createEnv({
     S3_BUCKET_NAME: process.env.S3_BUCKET_NAME,
     GOOGLE_GEMINI_API_KEY: process.env.GOOGLE_GEMINI_API_KEY,
     GMAIL_WEBHOOK_SECRET: process.env.GMAIL_WEBHOOK_SECRET,
+    GMAIL_PUBSUB_TOPIC: process.env.GMAIL_PUBSUB_TOPIC,
     CRON_SECRET: process.env.CRON_SECRET,
   },
   /**
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "~/trpc/react";
+
+export interface DraftFields {
+  threadId?: string;
+  replyToMessageId?: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  textContent: string;
+  htmlContent: string;
+  attachmentS3Keys: string[];
+}
+
+export interface DraftAttachment {
+  s3Key: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+function isEmptyDraft(fields: DraftFields): boolean {
+  return fields.to.length === 0 &&
+    fields.cc.length === 0 &&
+    fields.bcc.length === 0 &&
+    !fields.subject.trim() &&
+    !fields.textContent.trim() &&
+    fields.attachmentS3Keys.length === 0;
+}
+
+/**
+ * Saves the composer's fields as a draft shortly after the user stops typing.
+ * Saves run one at a time so a new draft is only ever created once.
+ */
+export function useDraftAutosave(fields: DraftFields, options: { enabled: boolean; draftId?: string | null }) {
+  const utils = api.useUtils();
+  const saveDraft = api.gmail.saveDraft.useMutation();
+  const deleteDraft = api.gmail.deleteDraft.useMutation();
+
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const draftIdRef = useRef<string | null>(options.draftId ?? null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const serialized = JSON.stringify(fields);
+  const lastSaved = useRef(serialized);
+
+  // A draft reopened from the Drafts page starts out as already saved
+  useEffect(() => {
+    if (options.draftId) {
+      draftIdRef.current = options.draftId;
+      lastSaved.current = serialized;
+    }
+  }, [options.draftId]); // Only when a different draft is loaded, not on every edit
+
+  useEffect(() => {
+    if (!options.enabled || serialized === lastSaved.current) return;
+    if (!draftIdRef.current && isEmptyDraft(fields)) return;
+
+    const timer = setTimeout(() => {
+      saveQueue.current = saveQueue.current.then(async () => {
+        try {
+          const draft = await saveDraft.mutateAsync({
+            ...fields,
+            draftId: draftIdRef.current ?? undefined,
+          });
+          draftIdRef.current = draft.id;
+          lastSaved.current = serialized;
+          setLastSavedAt(draft.updatedAt);
+          void utils.gmail.getDrafts.invalidate();
+        } catch (error) {
+          console.error("Draft autosave failed:", error);
+        }
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [serialized, options.enabled]);
+
+  // Waits for in-flight saves, then returns the id of the saved draft (if any)
+  const settle = useCallback(async () => {
+    await saveQueue.current;
+    return draftIdRef.current;
+  }, []);
+
+  const discard = useCallback(async () => {
+    const draftId = await settle();
+    draftIdRef.current = null;
+    setLastSavedAt(null);
+
+    if (draftId) {
+      await deleteDraft.mutateAsync({ draftId });
+      void utils.gmail.getDrafts.invalidate();
+    }
+  }, [settle, deleteDraft, utils]);
+
+  // Forget the draft once it has been sent; the server deletes it
+  const reset = useCallback(() => {
+    draftIdRef.current = null;
+    setLastSavedAt(null);
+  }, []);
+
+  return {
+    isSaving: saveDraft.isPending,
+    lastSavedAt,
+    settle,
+    discard,
+    reset,
+  };
+}
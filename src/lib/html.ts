@@ -0,0 +1,16 @@
+/**
+ * HTML helpers shared by the composer and the server.
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Plain text as HTML with its line breaks kept
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, "<br>");
+}
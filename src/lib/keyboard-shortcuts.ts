@@ -0,0 +1,74 @@
+/**
+ * Gmail-style keyboard shortcuts. Every binding is listed here; components
+ * supply the handlers for the context they represent (see useShortcuts).
+ */
+
+export type ShortcutContext = "global" | "list" | "thread" | "composer";
+
+export interface Shortcut {
+  id: string;
+  // Keys as KeyboardEvent.key values; a space separates the keys of a sequence like "g i"
+  sequences: readonly string[];
+  contexts: readonly ShortcutContext[];
+  description: string;
+}
+
+export const SHORTCUTS = [
+  { id: "nextThread", sequences: ["j"], contexts: ["list"], description: "Next conversation" },
+  { id: "previousThread", sequences: ["k"], contexts: ["list"], description: "Previous conversation" },
+  { id: "openThread", sequences: ["o", "Enter"], contexts: ["list"], description: "Open conversation" },
+  { id: "backToList", sequences: ["u"], contexts: ["thread"], description: "Back to the conversation list" },
+  { id: "archive", sequences: ["e"], contexts: ["list", "thread"], description: "Archive" },
+  { id: "trash", sequences: ["#"], contexts: ["list", "thread"], description: "Move to trash" },
+  { id: "star", sequences: ["s"], contexts: ["list", "thread"], description: "Star or unstar" },
+  { id: "reply", sequences: ["r"], contexts: ["thread"], description: "Reply" },
+  { id: "replyAll", sequences: ["a"], contexts: ["thread"], description: "Reply all" },
+  { id: "forward", sequences: ["f"], contexts: ["thread"], description: "Forward" },
+  { id: "compose", sequences: ["c"], contexts: ["global"], description: "Compose" },
+  { id: "focusSearch", sequences: ["/"], contexts: ["global"], description: "Search mail" },
+  { id: "goToInbox", sequences: ["g i"], contexts: ["global"], description: "Go to Inbox" },
+  { id: "goToStarred", sequences: ["g s"], contexts: ["global"], description: "Go to Starred" },
+  { id: "showHelp", sequences: ["?"], contexts: ["global"], description: "Show keyboard shortcuts" },
+] as const satisfies readonly Shortcut[];
+
+export type ShortcutId = (typeof SHORTCUTS)[number]["id"];
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, () => void>>;
+
+// When several contexts are mounted (a reply composer inside a thread), the highest one wins
+export const CONTEXT_PRIORITY: Record<ShortcutContext, number> = {
+  global: 0,
+  list: 1,
+  thread: 2,
+  composer: 3,
+};
+
+export function findShortcut(sequence: string, context: ShortcutContext): (typeof SHORTCUTS)[number] | undefined {
+  return SHORTCUTS.find(shortcut =>
+    (shortcut.sequences as readonly string[]).includes(sequence) &&
+    (shortcut.contexts as readonly ShortcutContext[]).some(c => c === "global" || c === context)
+  );
+}
+
+// True for the first key of a sequence such as "g i"
+export function isSequencePrefix(key: string): boolean {
+  return SHORTCUTS.some(shortcut => shortcut.sequences.some(sequence => sequence.startsWith(`${key} `)));
+}
+
+/**
+ * Shortcuts stay out of the way while typing, and Enter is left to whatever
+ * button or link has focus.
+ */
+export function shouldIgnoreKeyEvent(event: KeyboardEvent): boolean {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return true;
+
+  const target = event.target;
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !["checkbox", "radio", "button", "submit", "reset"].includes(target.type);
+  }
+
+  return event.key === "Enter" && target.closest("a, button") !== null;
+}
@@ -0,0 +1,393 @@
+/**
+ * Gmail-style search syntax: `from:`, `to:`, `cc:`, `subject:`, `label:`,
+ * `filename:`, `has:attachment`, `is:unread|read|starred|important`,
+ * `before:`/`after:` (YYYY/MM/DD), `older_than:`/`newer_than:` (2d, 3m, 1y),
+ * quoted phrases, `-negation`, `OR` and parentheses. As in Gmail, OR binds
+ * tighter than the implicit AND between terms.
+ *
+ * Shared by the server, which compiles the parsed query into a Prisma filter,
+ * and the advanced search form, which reads and writes the same syntax.
+ */
+
+export const SEARCH_OPERATORS = [
+  "from", "to", "cc", "subject", "label", "filename", "has", "is",
+  "before", "after", "older_than", "newer_than",
+] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+export type SearchNode =
+  | { type: "text"; value: string } // Free text; phrases keep their spaces
+  | { type: "operator"; operator: SearchOperator; value: string }
+  | { type: "not"; child: SearchNode }
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] };
+
+const IS_VALUES = new Set(["unread", "read", "starred", "important"]);
+const HAS_VALUES = new Set(["attachment", "attachments"]);
+const RELATIVE_DATE = /^(\d+)([dmy])$/i;
+
+type Token =
+  | { type: "open" | "close" | "or" }
+  | { type: "term"; negated: boolean; operator: string | null; value: string; quoted: boolean };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readValue = (): { value: string; quoted: boolean } => {
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      const stop = end === -1 ? query.length : end;
+      const value = query.slice(i + 1, stop);
+      i = stop + 1;
+      return { value, quoted: true };
+    }
+
+    const start = i;
+    while (i < query.length && !/[\s()"]/.test(query[i]!)) i++;
+    return { value: query.slice(start, i), quoted: false };
+  };
+
+  while (i < query.length) {
+    const char = query[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "open" : "close" });
+      i++;
+      continue;
+    }
+
+    // A leading "-" negates the term or group that follows it
+    const negated = char === "-" && i + 1 < query.length && !/\s/.test(query[i + 1]!);
+    if (negated) i++;
+
+    if (query[i] === "(") {
+      if (negated) tokens.push({ type: "term", negated: true, operator: null, value: "", quoted: false });
+      continue;
+    }
+
+    const word = readValue();
+    const separator = word.quoted ? -1 : word.value.indexOf(":");
+    const operator = separator > 0 ? word.value.slice(0, separator).toLowerCase() : null;
+
+    if (operator && (SEARCH_OPERATORS as readonly string[]).includes(operator)) {
+      let rest = word.value.slice(separator + 1);
+      let quoted = false;
+      // from:"Jane Doe" continues right after the colon
+      if (!rest && query[i] === '"') {
+        ({ value: rest, quoted } = readValue());
+      }
+      tokens.push({ type: "term", negated, operator, value: rest, quoted });
+    } else if (!word.quoted && word.value === "OR" && !negated) {
+      tokens.push({ type: "or" });
+    } else {
+      tokens.push({ type: "term", negated, operator: null, value: word.value, quoted: word.quoted });
+    }
+  }
+
+  return tokens;
+}
+
+// Operator values that don't make sense are searched for as plain text instead
+function isValidOperatorValue(operator: SearchOperator, value: string): boolean {
+  switch (operator) {
+    case "is":
+      return IS_VALUES.has(value.toLowerCase());
+    case "has":
+      return HAS_VALUES.has(value.toLowerCase());
+    case "before":
+    case "after":
+      return parseSearchDate(value) !== null;
+    case "older_than":
+    case "newer_than":
+      return RELATIVE_DATE.test(value);
+    default:
+      return value.length > 0;
+  }
+}
+
+function toTermNode(token: Extract<Token, { type: "term" }>): SearchNode | null {
+  let node: SearchNode | null = null;
+
+  if (token.operator) {
+    const operator = token.operator as SearchOperator;
+    node = isValidOperatorValue(operator, token.value)
+      ? { type: "operator", operator, value: token.value }
+      : { type: "text", value: `${token.operator}:${token.value}` };
+  } else if (token.value) {
+    node = { type: "text", value: token.value };
+  }
+
+  return node && token.negated ? { type: "not", child: node } : node;
+}
+
+function combine(type: "and" | "or", children: SearchNode[]): SearchNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0]!;
+  return { type, children };
+}
+
+/**
+ * Parses a search query into a tree. Returns null for an empty query.
+ * Unbalanced parentheses and stray ORs are tolerated rather than rejected.
+ */
+export function parseSearchQuery(query: string): SearchNode | null {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  // andExpr := orExpr*
+  const parseAnd = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    while (position < tokens.length && tokens[position]!.type !== "close") {
+      const node = parseOr();
+      if (node) children.push(node);
+    }
+    return combine("and", children);
+  };
+
+  // orExpr := unary ("OR" unary)*
+  const parseOr = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    const first = parseUnary();
+    if (first) children.push(first);
+
+    while (tokens[position]?.type === "or") {
+      position++;
+      const next = parseUnary();
+      if (next) children.push(next);
+    }
+    return combine("or", children);
+  };
+
+  // unary := term | "(" andExpr ")" | "-" "(" andExpr ")"
+  const parseUnary = (): SearchNode | null => {
+    const token = tokens[position++];
+    if (!token) return null;
+
+    if (token.type === "or") return null; // Leading OR has nothing on its left
+
+    if (token.type === "open") {
+      const group = parseAnd();
+      if (tokens[position]?.type === "close") position++;
+      return group;
+    }
+
+    if (token.type === "term") {
+      // Empty negated term marks "-(...)"
+      if (token.negated && !token.operator && !token.value && tokens[position]?.type === "open") {
+        const group = parseUnary();
+        return group ? { type: "not", child: group } : null;
+      }
+      return toTermNode(token);
+    }
+
+    return null;
+  };
+
+  const nodes: SearchNode[] = [];
+  while (position < tokens.length) {
+    const node = parseAnd();
+    if (node) nodes.push(node);
+    if (tokens[position]?.type === "close") position++; // Unbalanced ")"
+  }
+
+  return combine("and", nodes);
+}
+
+/**
+ * Parses before:/after: dates. Gmail writes them as YYYY/MM/DD; dashes and
+ * single-digit months and days are accepted too. The date is midnight in the
+ * timezone given as minutes behind UTC (see Date.getTimezoneOffset), local
+ * midnight when none is given.
+ */
+export function parseSearchDate(value: string, timezoneOffset?: number): Date | null {
+  const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const midnight = new Date(Date.UTC(year, month - 1, day));
+  if (midnight.getUTCMonth() !== month - 1 || midnight.getUTCDate() !== day) return null;
+
+  const offset = timezoneOffset ?? new Date(year, month - 1, day).getTimezoneOffset();
+  return new Date(midnight.getTime() + offset * 60_000);
+}
+
+export function formatSearchDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+}
+
+// Start of the older_than:/newer_than: window, e.g. "7d" -> a week before now
+export function resolveRelativeDate(value: string, now = new Date()): Date | null {
+  const match = RELATIVE_DATE.exec(value.trim());
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const date = new Date(now);
+  switch (match[2]!.toLowerCase()) {
+    case "d":
+      date.setDate(date.getDate() - amount);
+      break;
+    case "m":
+      date.setMonth(date.getMonth() - amount);
+      break;
+    case "y":
+      date.setFullYear(date.getFullYear() - amount);
+      break;
+  }
+  return date;
+}
+
+function quoteValue(value: string): string {
+  const trimmed = value.trim().replace(/"/g, "");
+  return /[\s()]/.test(trimmed) ? `"${trimmed}"` : trimmed;
+}
+
+/**
+ * Field values of the advanced search form. Text fields hold what the user
+ * typed; dates are YYYY-MM-DD as produced by date inputs.
+ */
+export interface AdvancedSearchFields {
+  subject: string;
+  from: string;
+  to: string;
+  content: string;
+  attachmentName: string;
+  dateRange: "" | "today" | "yesterday" | "lastWeek" | "lastMonth" | "lastYear";
+  dateAfter: string;
+  dateBefore: string;
+  hasAttachments: boolean;
+  isStarred: boolean;
+  isImportant: boolean;
+  isUnread: boolean;
+}
+
+export const EMPTY_ADVANCED_SEARCH: AdvancedSearchFields = {
+  subject: "",
+  from: "",
+  to: "",
+  content: "",
+  attachmentName: "",
+  dateRange: "",
+  dateAfter: "",
+  dateBefore: "",
+  hasAttachments: false,
+  isStarred: false,
+  isImportant: false,
+  isUnread: false,
+};
+
+// Quick ranges that map onto relative operators
+const DATE_RANGE_OPERATORS: Partial<Record<AdvancedSearchFields["dateRange"], string>> = {
+  lastWeek: "newer_than:7d",
+  lastMonth: "newer_than:1m",
+  lastYear: "newer_than:1y",
+};
+
+export function formatSearchQuery(fields: AdvancedSearchFields, now = new Date()): string {
+  const terms: string[] = [];
+  const toDateValue = (value: string) => value.replace(/-/g, "/");
+
+  if (fields.from.trim()) terms.push(`from:${quoteValue(fields.from)}`);
+  if (fields.to.trim()) terms.push(`to:${quoteValue(fields.to)}`);
+  if (fields.subject.trim()) terms.push(`subject:${quoteValue(fields.subject)}`);
+  if (fields.attachmentName.trim()) terms.push(`filename:${quoteValue(fields.attachmentName)}`);
+
+  if (fields.dateRange === "today" || fields.dateRange === "yesterday") {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (fields.dateRange === "today") {
+      terms.push(`after:${formatSearchDate(today)}`);
+    } else {
+      const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+      terms.push(`after:${formatSearchDate(yesterday)}`, `before:${formatSearchDate(today)}`);
+    }
+  } else if (fields.dateRange) {
+    terms.push(DATE_RANGE_OPERATORS[fields.dateRange]!);
+  } else {
+    if (fields.dateAfter) terms.push(`after:${toDateValue(fields.dateAfter)}`);
+    if (fields.dateBefore) terms.push(`before:${toDateValue(fields.dateBefore)}`);
+  }
+
+  if (fields.hasAttachments) terms.push("has:attachment");
+  if (fields.isStarred) terms.push("is:starred");
+  if (fields.isImportant) terms.push("is:important");
+  if (fields.isUnread) terms.push("is:unread");
+
+  // The content field is already free-form query text
+  if (fields.content.trim()) terms.push(fields.content.trim());
+
+  return terms.join(" ");
+}
+
+function formatNode(node: SearchNode, nested: boolean): string {
+  switch (node.type) {
+    case "text":
+      // Quoted so a phrase like "to:do" isn't read back as an operator
+      return node.value.includes(":") ? `"${node.value.replace(/"/g, "")}"` : quoteValue(node.value);
+    case "operator":
+      return `${node.operator}:${quoteValue(node.value)}`;
+    case "not":
+      return `-${formatNode(node.child, true)}`;
+    case "or": {
+      const text = node.children.map(child => formatNode(child, true)).join(" OR ");
+      return nested ? `(${text})` : text;
+    }
+    case "and": {
+      const text = node.children.map(child => formatNode(child, true)).join(" ");
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Fills the advanced search form from a query. Top-level terms the form has a
+ * field for go there; everything else (negations, ORs, repeated operators)
+ * stays in the content field as query text, so nothing is lost.
+ */
+export function parseAdvancedSearchFields(query: string): AdvancedSearchFields {
+  const fields: AdvancedSearchFields = { ...EMPTY_ADVANCED_SEARCH };
+  const root = parseSearchQuery(query);
+  if (!root) return fields;
+
+  const terms = root.type === "and" ? root.children : [root];
+  const rest: string[] = [];
+  const relativeRanges = Object.entries(DATE_RANGE_OPERATORS) as Array<[AdvancedSearchFields["dateRange"], string]>;
+
+  for (const term of terms) {
+    if (term.type !== "operator") {
+      rest.push(formatNode(term, term.type === "and"));
+      continue;
+    }
+
+    const value = term.value;
+    const range = relativeRanges.find(([, operator]) => operator === `${term.operator}:${value}`);
+    const date = parseSearchDate(value);
+
+    if (term.operator === "from" && !fields.from) fields.from = value;
+    else if (term.operator === "to" && !fields.to) fields.to = value;
+    else if (term.operator === "subject" && !fields.subject) fields.subject = value;
+    else if (term.operator === "filename" && !fields.attachmentName) fields.attachmentName = value;
+    else if (term.operator === "has") fields.hasAttachments = true;
+    else if (term.operator === "is" && value.toLowerCase() === "starred") fields.isStarred = true;
+    else if (term.operator === "is" && value.toLowerCase() === "important") fields.isImportant = true;
+    else if (term.operator === "is" && value.toLowerCase() === "unread") fields.isUnread = true;
+    else if (range && !fields.dateRange) fields.dateRange = range[0];
+    else if (term.operator === "after" && date && !fields.dateAfter) fields.dateAfter = formatSearchDate(date).replace(/\//g, "-");
+    else if (term.operator === "before" && date && !fields.dateBefore) fields.dateBefore = formatSearchDate(date).replace(/\//g, "-");
+    else rest.push(formatNode(term, false));
+  }
+
+  // The form offers either a quick range or explicit dates, not both
+  if (fields.dateRange && (fields.dateAfter || fields.dateBefore)) {
+    rest.push(DATE_RANGE_OPERATORS[fields.dateRange]!);
+    fields.dateRange = "";
+  }
+
+  fields.content = rest.join(" ");
+  return fields;
+}
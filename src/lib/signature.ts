@@ -0,0 +1,44 @@
+/**
+ * Signatures in composer HTML. The signature sits in its own block, marked the
+ * way Gmail marks it, so it can be found and switched later.
+ */
+
+const SIGNATURE_CLASS = "gmail_signature";
+
+/**
+ * Replaces the signature at the end of the HTML, or adds one; null removes
+ * it. Runs in the browser, on an inert template so nothing in the HTML loads.
+ */
+export function applySignature(html: string, signatureHtml: string | null): string {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  template.content.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach(element => element.remove());
+
+  if (signatureHtml !== null) {
+    // Leave an empty line above the signature to write in
+    if (!template.content.textContent?.trim() && !template.content.querySelector("img")) {
+      template.innerHTML = "<div><br></div>";
+    }
+
+    template.innerHTML += `<div class="${SIGNATURE_CLASS}"><div>-- </div>${signatureHtml}</div>`;
+  }
+
+  return template.innerHTML;
+}
+
+/**
+ * What the user wrote, leaving out the signature: its text (without line
+ * breaks, for emptiness checks) and whether it holds images.
+ */
+export function getComposerBody(html: string): { text: string; hasImages: boolean } {
+  if (!html || typeof document === "undefined") return { text: "", hasImages: false };
+
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  template.content.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach(element => element.remove());
+
+  return {
+    text: template.content.textContent ?? "",
+    hasImages: template.content.querySelector("img") !== null,
+  };
+}
@@ -3,4 +3,31 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+// Reads a file as base64 without the data URL prefix
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64 = (reader.result as string).split(",")[1];
+      if (base64) {
+        resolve(base64);
+      } else {
+        reject(new Error("Failed to convert file to base64"));
+      }
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Display name of a stored "Name <address>" sender, without the quoting added
+// to names containing commas or other specials
+export function getSenderName(from: string): string {
+  const name = from.split("<")[0]?.trim();
+  if (!name) return from;
+
+  const quoted = /^"(.*)"$/.exec(name);
+  return quoted ? quoted[1]!.replace(/\\(.)/g, "$1") : name;
+}
@@ -1,10 +1,724 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { GmailSyncService } from "~/server/services/gmail-sync";
-import { getFromS3, getFromS3AsBuffer, getPresignedUrl, uploadToS3, S3_PATHS } from "~/server/s3";
-import { getGmailClient, getUserRefreshToken } from "~/server/gmail";
+import { GmailMailboxService } from "~/server/services/gmail-mailbox";
+import { getFromS3, getFromS3AsBuffer, getPresignedUrl, getS3ObjectInfo, uploadToS3, S3_PATHS } from "~/server/s3";
+import { sanitizeEmailHtml, SANITIZER_VERSION } from "~/server/html-sanitizer";
+import { processRemoteImages } from "~/server/remote-images";
+import { parseAddress } from "~/server/email-address";
+import { parseSearchQuery } from "~/lib/search-query";
+import { buildThreadSearch, countThreads, findThreadIds, getSearchHighlights, type SearchHighlight, type ThreadSearch } from "~/server/search";
+import { buildMimeMessage, encodeBase64Url, generateMessageId, lookupContentType, type MimeAttachment } from "~/server/mime";
+import { buildReplyQuote, buildReplySubject, buildReplyThreading, computeReplyRecipients } from "~/server/reply";
+import { buildForwardHtml, buildForwardSubject, buildForwardText } from "~/server/forward";
+import { extractInlineImages, htmlToPlainText } from "~/server/message-html";
+import { textToHtml } from "~/lib/html";
+import {
+  getGmailClient,
+  getGmailErrorStatus,
+  getMessageIdHeader,
+  getRawMessage,
+  getSendAsAddresses,
+  getSendAsSignatures,
+  getUserRefreshToken,
+  isInsufficientScopeError,
+} from "~/server/gmail";
 import { env } from "~/env";
+import { db } from "~/server/db";
 import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+
+const labelColorSchema = z.object({
+  backgroundColor: z.string().regex(/^#[0-9a-f]{6}$/i),
+  textColor: z.string().regex(/^#[0-9a-f]{6}$/i),
+});
+
+const labelNameSchema = z.string().trim().min(1).max(225)
+  .refine(name => !name.split("/").some(part => part.trim() === ""), "Label names cannot have empty nesting levels");
+
+const savedSearchNameSchema = z.string().trim().min(1).max(100);
+
+const savedSearchQuerySchema = z.string().trim().min(1).max(1000)
+  .refine(query => parseSearchQuery(query) !== null, "The search has no terms");
+
+const signatureNameSchema = z.string().trim().min(1).max(100);
+
+// Pasted images are kept as data: URLs, hence the generous limit
+const signatureHtmlSchema = z.string().max(2_000_000);
+
+// New messages and replies (forwards included) each have their own default signature
+const signatureKindSchema = z.enum(["new", "reply"]);
+
+async function getMailboxService(userId: string) {
+  const mailboxService = await GmailMailboxService.create(userId);
+  if (!mailboxService) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Gmail not connected. Please reconnect your account.",
+    });
+  }
+  return mailboxService;
+}
+
+async function updateGmailLabel<T>(update: () => Promise<T>): Promise<T> {
+  try {
+    return await update();
+  } catch (error) {
+    if (getGmailErrorStatus(error) === 409) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "A label with this name already exists",
+        cause: error,
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update label in Gmail",
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Uploaded files are referenced by S3 key from the client; only keys under the
+ * user's own prefix may be sent, stored or attached to a draft.
+ */
+function assertOwnS3Keys(userId: string, s3Keys: string[]) {
+  if (s3Keys.some(key => !key.startsWith(`users/${userId}/`))) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Attachment does not belong to this user",
+    });
+  }
+}
+
+// Outgoing Message-IDs use the app's own host rather than the sender's mail provider
+function getMessageIdDomain(): string {
+  try {
+    return env.NEXTAUTH_URL ? new URL(env.NEXTAUTH_URL).hostname : "localhost";
+  } catch {
+    return "localhost";
+  }
+}
+
+interface RawEmailOptions {
+  messageId?: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  content: string;
+  html?: string;
+  inReplyTo?: string | null;
+  references: string[];
+  attachmentKeys: string[];
+  attachments?: MimeAttachment[]; // Already loaded, like the parts of a forwarded message
+}
+
+// Builds the MIME message with its attachments loaded from S3, base64url encoded as the Gmail API expects
+async function buildRawEmail(options: RawEmailOptions): Promise<string> {
+  const attachments: MimeAttachment[] = [...(options.attachments ?? [])];
+  for (const s3Key of options.attachmentKeys) {
+    try {
+      const [content, info] = await Promise.all([getFromS3AsBuffer(s3Key), getS3ObjectInfo(s3Key)]);
+      if (content) {
+        const filename = s3Key.split('/').pop() || 'attachment';
+        attachments.push({
+          filename,
+          content,
+          // Objects uploaded without a type fall back to a guess from the filename
+          contentType: info?.contentType && info.contentType !== "application/octet-stream"
+            ? info.contentType
+            : lookupContentType(filename),
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to attach file ${s3Key}:`, error);
+    }
+  }
+
+  const raw = buildMimeMessage({
+    from: options.from,
+    to: options.to,
+    cc: options.cc,
+    bcc: options.bcc,
+    subject: options.subject,
+    text: options.content,
+    html: options.html || undefined,
+    messageId: options.messageId,
+    inReplyTo: options.inReplyTo,
+    references: options.references,
+    attachments,
+  });
+
+  return encodeBase64Url(raw);
+}
+
+interface SentMessage {
+  gmailMessageId: string;
+  gmailThreadId: string;
+  rfcMessageId: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  content: string;
+  html?: string; // Stored like synced bodies, so the sent message renders as the recipients see it
+  inlineImages?: MimeAttachment[]; // Parts the HTML shows through cid:
+  inReplyTo: string | null;
+  references: string[];
+  // Uploaded files sent with the message; sync adds the rest once Gmail has it
+  attachments: Array<{ s3Key: string; filename: string; contentType: string; size: number }>;
+}
+
+/**
+ * Records a message we just sent so it shows up before the next sync: its
+ * thread is created or moved to the top, the message with its HTML body and
+ * attachments is stored, and the thread gets the SENT label.
+ */
+async function recordSentMessage(userId: string, sent: SentMessage) {
+  const currentDate = new Date();
+  const snippet = sent.content.substring(0, 100);
+
+  // Same key sync uses, so the copy Gmail returns later simply replaces ours
+  let htmlS3Key: string | null = null;
+  if (sent.html) {
+    try {
+      htmlS3Key = S3_PATHS.MESSAGE_HTML(userId, sent.gmailMessageId);
+      await uploadToS3(htmlS3Key, sent.html, "text/html");
+    } catch (error) {
+      htmlS3Key = null;
+      console.error(`Failed to store the HTML of sent message ${sent.gmailMessageId}:`, error);
+    }
+  }
+
+  const thread = await db.thread.upsert({
+    where: { userId_gmailThreadId: { userId, gmailThreadId: sent.gmailThreadId } },
+    create: {
+      userId,
+      gmailThreadId: sent.gmailThreadId,
+      subject: sent.subject,
+      snippet,
+      lastMessageDate: currentDate,
+      unread: false, // Sent emails are not unread
+      starred: false,
+      important: false,
+      messageCount: 1,
+    },
+    update: {
+      lastMessageDate: currentDate,
+      messageCount: { increment: 1 },
+    },
+  });
+
+  const message = await db.message.create({
+    data: {
+      threadId: thread.id,
+      gmailMessageId: sent.gmailMessageId,
+      gmailThreadId: sent.gmailThreadId,
+      rfcMessageId: sent.rfcMessageId, // Reconciled by the next incremental sync should Gmail have replaced it
+      from: sent.from,
+      to: sent.to.map(address => address.toLowerCase()),
+      cc: sent.cc.map(address => address.toLowerCase()),
+      bcc: sent.bcc.map(address => address.toLowerCase()),
+      subject: sent.subject,
+      snippet,
+      date: currentDate,
+      htmlS3Key,
+      textContent: sent.content,
+      inReplyTo: sent.inReplyTo,
+      references: sent.references,
+      labelIds: ["SENT"], // Mark as sent immediately
+    },
+  });
+
+  for (const attachment of sent.attachments) {
+    try {
+      await db.attachment.create({
+        data: {
+          messageId: message.id,
+          filename: attachment.filename,
+          mimeType: attachment.contentType,
+          size: attachment.size,
+          s3Key: attachment.s3Key,
+          gmailAttachmentId: `sent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // Generated ID for sent attachments
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to create attachment record for ${attachment.s3Key}:`, error);
+    }
+  }
+
+  for (const image of sent.inlineImages ?? []) {
+    try {
+      const s3Key = S3_PATHS.ATTACHMENT(userId, sent.gmailMessageId, image.contentId!, image.filename);
+      await uploadToS3(s3Key, image.content, image.contentType ?? lookupContentType(image.filename));
+      await db.attachment.create({
+        data: {
+          messageId: message.id,
+          filename: image.filename,
+          mimeType: image.contentType ?? lookupContentType(image.filename),
+          size: image.content.length,
+          s3Key,
+          gmailAttachmentId: `sent-${image.contentId}`,
+          contentId: image.contentId,
+          inline: true,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to store inline image ${image.filename}:`, error);
+    }
+  }
+
+  const sentLabel = await db.label.findFirst({ where: { userId, gmailLabelId: "SENT" } }) ??
+    await db.label.create({ data: { userId, gmailLabelId: "SENT", name: "Sent", type: "SYSTEM" } });
+
+  await db.labelThread.upsert({
+    where: { labelId_threadId: { labelId: sentLabel.id, threadId: thread.id } },
+    create: { labelId: sentLabel.id, threadId: thread.id },
+    update: {},
+  });
+
+  return message;
+}
+
+/**
+ * Returns the sanitized message body, sanitizing and caching it next to the raw
+ * S3 object on first access.
+ */
+async function getSanitizedHtml(htmlS3Key: string): Promise<string | null> {
+  const sanitizedKey = S3_PATHS.MESSAGE_SANITIZED_HTML(htmlS3Key, SANITIZER_VERSION);
+  const cached = await getFromS3(sanitizedKey);
+  if (cached !== null) return cached;
+
+  const raw = await getFromS3(htmlS3Key);
+  if (raw === null) return null;
+
+  const sanitized = sanitizeEmailHtml(raw);
+  try {
+    await uploadToS3(sanitizedKey, sanitized, "text/html");
+  } catch (error) {
+    console.error(`Failed to cache sanitized HTML for ${htmlS3Key}:`, error);
+  }
+
+  return sanitized;
+}
+
+/**
+ * In-Reply-To and References pointing at the parent's Message-ID header. For
+ * messages synced before the header was stored it is looked up in Gmail once.
+ */
+async function getReplyThreading(
+  userId: string,
+  parent: { id: string; gmailMessageId: string; rfcMessageId: string | null; references: string[] }
+) {
+  let parentMessageId = parent.rfcMessageId;
+  if (!parentMessageId) {
+    const refreshToken = await getUserRefreshToken(userId);
+    try {
+      parentMessageId = refreshToken
+        ? await getMessageIdHeader(getGmailClient(refreshToken), parent.gmailMessageId)
+        : null;
+      if (parentMessageId) {
+        await db.message.update({ where: { id: parent.id }, data: { rfcMessageId: parentMessageId } });
+      }
+    } catch (error) {
+      console.error(`Failed to read the Message-ID of ${parent.gmailMessageId}:`, error);
+    }
+  }
+  return buildReplyThreading(parentMessageId, parent.references);
+}
+
+function signatureDefaultData(kind: z.infer<typeof signatureKindSchema>, value: boolean) {
+  return kind === "new" ? { defaultForNew: value } : { defaultForReplies: value };
+}
+
+// Makes a signature the only default of its kind for the address; null leaves the address without one
+async function setDefaultSignature(
+  userId: string,
+  sendAsEmail: string,
+  kind: z.infer<typeof signatureKindSchema>,
+  signatureId: string | null
+) {
+  await db.$transaction([
+    db.signature.updateMany({ where: { userId, sendAsEmail }, data: signatureDefaultData(kind, false) }),
+    ...(signatureId
+      ? [db.signature.updateMany({ where: { id: signatureId, userId, sendAsEmail }, data: signatureDefaultData(kind, true) })]
+      : []),
+  ]);
+}
+
+// The user's primary address plus their Gmail aliases; the primary alone when Gmail is unreachable
+async function getOwnAddresses(userId: string, primaryAddress: string | null | undefined): Promise<string[]> {
+  const addresses = primaryAddress ? [primaryAddress.toLowerCase()] : [];
+  const refreshToken = await getUserRefreshToken(userId);
+  if (refreshToken) {
+    try {
+      addresses.push(...await getSendAsAddresses(getGmailClient(refreshToken)));
+    } catch (error) {
+      console.error("Failed to load send-as addresses:", error);
+    }
+  }
+  return [...new Set(addresses)];
+}
+
+async function deleteDraft(userId: string, draft: { id: string; gmailDraftId: string | null }) {
+  if (draft.gmailDraftId) {
+    const mailboxService = await GmailMailboxService.create(userId);
+    try {
+      await mailboxService?.deleteGmailDraft(draft.gmailDraftId);
+    } catch (error) {
+      console.error(`Failed to delete Gmail draft ${draft.gmailDraftId}:`, error);
+    }
+  }
+
+  await db.draft.deleteMany({ where: { id: draft.id, userId } });
+}
+
+async function updateGmailThread(
+  userId: string,
+  threadId: string,
+  update: (mailboxService: GmailMailboxService, threadId: string) => Promise<void>
+) {
+  const thread = await db.thread.findFirst({
+    where: { id: threadId, userId },
+    select: { id: true },
+  });
+
+  if (!thread) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Thread not found",
+    });
+  }
+
+  const mailboxService = await getMailboxService(userId);
+
+  try {
+    await update(mailboxService, thread.id);
+  } catch (error) {
+    if (isInsufficientScopeError(error)) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Gmail permission missing. Please reconnect your account.",
+        cause: error,
+      });
+    }
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update Gmail",
+      cause: error,
+    });
+  }
+}
+
+// Filters shared by thread listing and bulk selection
+const threadFilterSchema = z.object({
+  labelId: z.string().optional(),
+  unreadOnly: z.boolean().default(false),
+  search: z.string().optional(),
+  // Advanced search filters
+  advancedSearch: z.object({
+    // Text search fields
+    subject: z.string().optional(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+    content: z.string().optional(), // Full message text
+    attachmentName: z.string().optional(),
+    
+    // Date filters
+    dateAfter: z.date().optional(),
+    dateBefore: z.date().optional(),
+    dateRange: z.enum(['today', 'yesterday', 'lastWeek', 'lastMonth', 'lastYear']).optional(),
+    
+    // Status filters
+    hasAttachments: z.boolean().optional(),
+    isStarred: z.boolean().optional(),
+    isImportant: z.boolean().optional(),
+    isUnread: z.boolean().optional(),
+    
+  }).optional(),
+});
+
+type ThreadFilter = z.infer<typeof threadFilterSchema>;
+
+// Threads per batch update; the client sends large selections in chunks and reports progress
+const MAX_BATCH_THREADS = 100;
+// "Select all matching" stops here
+const MAX_THREAD_SELECTION = 5000;
+
+const batchActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("markRead") }),
+  z.object({ type: z.literal("markUnread") }),
+  z.object({ type: z.literal("star") }),
+  z.object({ type: z.literal("unstar") }),
+  z.object({ type: z.literal("archive") }),
+  z.object({ type: z.literal("trash") }),
+  z.object({ type: z.literal("addLabel"), labelId: z.string() }),
+  z.object({ type: z.literal("removeLabel"), labelId: z.string() }),
+]);
+
+// Gmail system labels with a view of their own; other label ids are our Label rows
+const SYSTEM_LABEL_VIEWS = ["INBOX", "SENT", "DRAFT", "TRASH"];
+
+/**
+ * The view a search box query runs in (its label and the unread filter), as a
+ * SQL predicate on the thread alias t. Mirrors the label conditions of
+ * buildThreadsWhere.
+ */
+function buildSearchScope(filter: ThreadFilter): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+  if (filter.unreadOnly) conditions.push(Prisma.sql`t."unread"`);
+
+  if (filter.labelId === "STARRED") {
+    conditions.push(Prisma.sql`t."starred"`);
+  } else if (filter.labelId && SYSTEM_LABEL_VIEWS.includes(filter.labelId)) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "LabelThread" lt JOIN "Label" l ON l."id" = lt."labelId"
+      WHERE lt."threadId" = t."id" AND l."gmailLabelId" = ${filter.labelId}
+    )`);
+  } else if (filter.labelId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "LabelThread" lt WHERE lt."threadId" = t."id" AND lt."labelId" = ${filter.labelId}
+    )`);
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, " AND ") : Prisma.sql`true`;
+}
+
+// Minutes behind UTC reported by the browser (see ~/trpc/react), for search dates
+function getTimezoneOffset(headers: Headers): number | undefined {
+  const offset = Number(headers.get("x-timezone-offset") ?? NaN);
+  return Number.isInteger(offset) && Math.abs(offset) <= 14 * 60 ? offset : undefined;
+}
+
+/**
+ * Builds the filter for a thread view. Search box queries compile to SQL
+ * instead (see ~/server/search) and come back as `search`, scoped to the view.
+ */
+function buildThreadsWhere(
+  user: { id: string; email?: string | null },
+  filter: ThreadFilter,
+  timezoneOffset?: number
+): { where: any; search: (ThreadSearch & { scope: Prisma.Sql }) | null } {
+  let labelCondition = {};
+  let searchConditions: any[] = [];
+  
+  // Helper function to build date range conditions
+  const buildDateCondition = (advancedSearch: any) => {
+    let dateCondition: any = {};
+    
+    if (advancedSearch.dateAfter) {
+      dateCondition.gte = advancedSearch.dateAfter;
+    }
+    
+    if (advancedSearch.dateBefore) {
+      dateCondition.lte = advancedSearch.dateBefore;
+    }
+    
+    if (advancedSearch.dateRange) {
+      const now = new Date();
+      let startDate: Date;
+      
+      switch (advancedSearch.dateRange) {
+        case 'today':
+          startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+          break;
+        case 'yesterday':
+          startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+          dateCondition.lte = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+          break;
+        case 'lastWeek':
+          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+          break;
+        case 'lastMonth':
+          startDate = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
+          break;
+        case 'lastYear':
+          startDate = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
+          break;
+        default:
+          startDate = now;
+      }
+      dateCondition.gte = startDate;
+    }
+    
+    return Object.keys(dateCondition).length > 0 ? { lastMessageDate: dateCondition } : {};
+  };
+  
+  // Handle advanced search
+  if (filter.advancedSearch) {
+    const adv = filter.advancedSearch;
+    
+    // Text search conditions
+    const textConditions: any[] = [];
+    
+    if (adv.subject) {
+      textConditions.push({ subject: { contains: adv.subject, mode: "insensitive" } });
+    }
+    
+    if (adv.from) {
+      textConditions.push({
+        messages: {
+          some: { from: { contains: adv.from, mode: "insensitive" } }
+        }
+      });
+    }
+    
+    if (adv.to) {
+      // Recipients are stored as lower-cased bare addresses
+      const toAddress = adv.to.trim().toLowerCase();
+      textConditions.push({
+        messages: {
+          some: {
+            OR: [
+              { to: { has: toAddress } },
+              { cc: { has: toAddress } },
+              { bcc: { has: toAddress } },
+            ]
+          }
+        }
+      });
+    }
+    
+    if (adv.content) {
+      textConditions.push({
+        messages: {
+          some: { textContent: { contains: adv.content, mode: "insensitive" } }
+        }
+      });
+    }
+    
+    if (adv.attachmentName) {
+      textConditions.push({
+        messages: {
+          some: {
+            attachments: {
+              some: { filename: { contains: adv.attachmentName, mode: "insensitive" } }
+            }
+          }
+        }
+      });
+    }
+    
+    // Add text conditions (using OR logic by default)
+    if (textConditions.length > 0) {
+      searchConditions.push({ OR: textConditions });
+    }
+    
+    // Date conditions
+    const dateCondition = buildDateCondition(adv);
+    if (Object.keys(dateCondition).length > 0) {
+      searchConditions.push(dateCondition);
+    }
+    
+    // Status conditions
+    if (adv.hasAttachments !== undefined) {
+      if (adv.hasAttachments) {
+        searchConditions.push({
+          messages: { some: { attachments: { some: { inline: false } } } }
+        });
+      } else {
+        searchConditions.push({
+          messages: { none: { attachments: { some: { inline: false } } } }
+        });
+      }
+    }
+    
+    if (adv.isStarred !== undefined) {
+      searchConditions.push({ starred: adv.isStarred });
+    }
+    
+    if (adv.isImportant !== undefined) {
+      searchConditions.push({ important: adv.isImportant });
+    }
+    
+    if (adv.isUnread !== undefined) {
+      searchConditions.push({ unread: adv.isUnread });
+    }
+  }
+  
+  // Handle special Gmail system labels
+  if (filter.labelId) {
+    switch (filter.labelId) {
+      case "INBOX":
+        labelCondition = {
+          labelThreads: {
+            some: {
+              label: {
+                gmailLabelId: "INBOX",
+              },
+            },
+          },
+        };
+        break;
+      case "STARRED":
+        labelCondition = { starred: true };
+        break;
+      case "SENT":
+        labelCondition = {
+          labelThreads: {
+            some: {
+              label: {
+                gmailLabelId: "SENT",
+              },
+            },
+          },
+        };
+        break;
+      case "DRAFT":
+        labelCondition = {
+          labelThreads: {
+            some: {
+              label: {
+                gmailLabelId: "DRAFT",
+              },
+            },
+          },
+        };
+        break;
+      case "TRASH":
+        labelCondition = {
+          labelThreads: {
+            some: {
+              label: {
+                gmailLabelId: "TRASH",
+              },
+            },
+          },
+        };
+        break;
+      default:
+        // Custom label by database ID
+        labelCondition = {
+          labelThreads: {
+            some: { labelId: filter.labelId },
+          },
+        };
+    }
+  }
+
+  // Build final where conditions
+  const baseConditions: any = {
+    userId: user.id,
+    ...(filter.unreadOnly && { unread: true }),
+    ...labelCondition,
+  };
+  
+  // Search box queries use Gmail's operator syntax
+  const search = filter.search && !filter.advancedSearch
+    ? buildThreadSearch(filter.search, { userId: user.id, userEmail: user.email ?? null, timezoneOffset })
+    : null;
+  
+  // Combine all conditions
+  const where = searchConditions.length > 0 
+    ? { ...baseConditions, AND: searchConditions }
+    : baseConditions;
+
+  return { where, search: search && { ...search, scope: buildSearchScope(filter) } };
+}
 
 export const gmailRouter = createTRPCRouter({
   syncMailbox: protectedProcedure
@@ -78,275 +792,60 @@ export const gmailRouter = createTRPCRouter({
     }),
 
   getThreads: protectedProcedure
-    .input(z.object({
+    .input(threadFilterSchema.extend({
       cursor: z.string().optional(),
       limit: z.number().min(1).max(100).default(50),
-      labelId: z.string().optional(),
-      unreadOnly: z.boolean().default(false),
-      search: z.string().optional(),
-      // Advanced search filters
-      advancedSearch: z.object({
-        // Text search fields
-        subject: z.string().optional(),
-        from: z.string().optional(),
-        to: z.string().optional(),
-        content: z.string().optional(), // Full message text
-        attachmentName: z.string().optional(),
-        
-        // Date filters
-        dateAfter: z.date().optional(),
-        dateBefore: z.date().optional(),
-        dateRange: z.enum(['today', 'yesterday', 'lastWeek', 'lastMonth', 'lastYear']).optional(),
-        
-        // Status filters
-        hasAttachments: z.boolean().optional(),
-        isStarred: z.boolean().optional(),
-        isImportant: z.boolean().optional(),
-        isUnread: z.boolean().optional(),
-        
-      }).optional(),
     }))
     .query(async ({ ctx, input }) => {
-      let labelCondition = {};
-      let searchConditions: any[] = [];
-      
-      // Helper function to build date range conditions
-      const buildDateCondition = (advancedSearch: any) => {
-        let dateCondition: any = {};
-        
-        if (advancedSearch.dateAfter) {
-          dateCondition.gte = advancedSearch.dateAfter;
-        }
-        
-        if (advancedSearch.dateBefore) {
-          dateCondition.lte = advancedSearch.dateBefore;
-        }
-        
-        if (advancedSearch.dateRange) {
-          const now = new Date();
-          let startDate: Date;
-          
-          switch (advancedSearch.dateRange) {
-            case 'today':
-              startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-              break;
-            case 'yesterday':
-              startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
-              dateCondition.lte = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-              break;
-            case 'lastWeek':
-              startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-              break;
-            case 'lastMonth':
-              startDate = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
-              break;
-            case 'lastYear':
-              startDate = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
-              break;
-            default:
-              startDate = now;
-          }
-          dateCondition.gte = startDate;
-        }
-        
-        return Object.keys(dateCondition).length > 0 ? { lastMessageDate: dateCondition } : {};
-      };
-      
-      // Handle advanced search
-      if (input.advancedSearch) {
-        const adv = input.advancedSearch;
-        
-        // Text search conditions
-        const textConditions: any[] = [];
-        
-        if (adv.subject) {
-          textConditions.push({ subject: { contains: adv.subject, mode: "insensitive" } });
-        }
-        
-        if (adv.from) {
-          textConditions.push({
-            messages: {
-              some: { from: { contains: adv.from, mode: "insensitive" } }
-            }
-          });
-        }
-        
-        if (adv.to) {
-          textConditions.push({
-            messages: {
-              some: {
-                OR: [
-                  { to: { hasSome: [adv.to] } },
-                  { cc: { hasSome: [adv.to] } },
-                  { bcc: { hasSome: [adv.to] } },
-                ]
-              }
-            }
-          });
-        }
-        
-        if (adv.content) {
-          textConditions.push({
-            messages: {
-              some: { textContent: { contains: adv.content, mode: "insensitive" } }
-            }
-          });
-        }
-        
-        if (adv.attachmentName) {
-          textConditions.push({
-            messages: {
-              some: {
-                attachments: {
-                  some: { filename: { contains: adv.attachmentName, mode: "insensitive" } }
-                }
-              }
-            }
-          });
-        }
-        
-        // Add text conditions (using OR logic by default)
-        if (textConditions.length > 0) {
-          searchConditions.push({ OR: textConditions });
-        }
-        
-        // Date conditions
-        const dateCondition = buildDateCondition(adv);
-        if (Object.keys(dateCondition).length > 0) {
-          searchConditions.push(dateCondition);
-        }
-        
-        // Status conditions
-        if (adv.hasAttachments !== undefined) {
-          if (adv.hasAttachments) {
-            searchConditions.push({
-              messages: { some: { attachments: { some: {} } } }
-            });
-          } else {
-            searchConditions.push({
-              messages: { none: { attachments: { some: {} } } }
-            });
-          }
-        }
-        
-        if (adv.isStarred !== undefined) {
-          searchConditions.push({ starred: adv.isStarred });
-        }
-        
-        if (adv.isImportant !== undefined) {
-          searchConditions.push({ important: adv.isImportant });
-        }
-        
-        if (adv.isUnread !== undefined) {
-          searchConditions.push({ unread: adv.isUnread });
-        }
-      }
-      
-      // Handle special Gmail system labels
-      if (input.labelId) {
-        switch (input.labelId) {
-          case "INBOX":
-            labelCondition = {
-              labelThreads: {
-                some: {
-                  label: {
-                    gmailLabelId: "INBOX",
-                  },
-                },
-              },
-            };
-            break;
-          case "STARRED":
-            labelCondition = { starred: true };
-            break;
-          case "SENT":
-            labelCondition = {
-              labelThreads: {
-                some: {
-                  label: {
-                    gmailLabelId: "SENT",
-                  },
-                },
-              },
-            };
-            break;
-          case "DRAFT":
-            labelCondition = {
-              labelThreads: {
-                some: {
-                  label: {
-                    gmailLabelId: "DRAFT",
-                  },
-                },
-              },
-            };
-            break;
-          case "TRASH":
-            labelCondition = {
-              labelThreads: {
-                some: {
-                  label: {
-                    gmailLabelId: "TRASH",
-                  },
-                },
-              },
-            };
-            break;
-          default:
-            // Custom label by database ID
-            labelCondition = {
-              labelThreads: {
-                some: { labelId: input.labelId },
-              },
-            };
-        }
-      }
+      const { where, search } = buildThreadsWhere(ctx.session.user, input, getTimezoneOffset(ctx.headers));
 
-      // Build final where conditions
-      const baseConditions: any = {
-        userId: ctx.session.user.id,
-        ...(input.unreadOnly && { unread: true }),
-        ...labelCondition,
+      const include = {
+        messages: {
+          select: {
+            from: true,
+            to: true,
+            cc: true,
+            date: true,
+            subject: true,
+            snippet: true,
+            // Include textContent for search but limit size for performance
+            textContent: input.advancedSearch?.content ? true : false,
+          },
+          orderBy: { date: "desc" as const },
+          take: 1,
+        },
+        labelThreads: {
+          include: {
+            label: true,
+          },
+        },
       };
-      
-      // Handle simple search (backward compatibility)
-      if (input.search && !input.advancedSearch) {
-        searchConditions.push({
-          OR: [
-            { subject: { contains: input.search, mode: "insensitive" as const } },
-            { snippet: { contains: input.search, mode: "insensitive" as const } },
-          ],
-        });
+
+      // Searches run as one SQL query, ordered by relevance for free text; the cursor is an offset into the results
+      if (search) {
+        const offset = Number(input.cursor ?? 0) || 0;
+        const matchIds = await findThreadIds(search, { scope: search.scope, offset, limit: input.limit + 1 });
+        const pageIds = matchIds.slice(0, input.limit);
+        const [pageThreads, highlights] = await Promise.all([
+          ctx.db.thread.findMany({ where: { id: { in: pageIds } }, include }),
+          getSearchHighlights(pageIds, search.rankedTerms),
+        ]);
+
+        const threadsById = new Map(pageThreads.map(thread => [thread.id, thread]));
+        const threads = pageIds
+          .map(id => threadsById.get(id))
+          .filter((thread): thread is NonNullable<typeof thread> => thread !== undefined)
+          .map(thread => ({ ...thread, searchHighlight: highlights.get(thread.id) ?? null }));
+
+        return {
+          threads,
+          nextCursor: matchIds.length > input.limit ? String(offset + input.limit) : undefined,
+        };
       }
-      
-      // Combine all conditions
-      const where = searchConditions.length > 0 
-        ? { ...baseConditions, AND: searchConditions }
-        : baseConditions;
 
       const threads = await ctx.db.thread.findMany({
         where,
-        include: {
-          messages: {
-            select: {
-              from: true,
-              to: true,
-              cc: true,
-              date: true,
-              subject: true,
-              snippet: true,
-              // Include textContent for search but limit size for performance
-              textContent: input.advancedSearch?.content ? true : false,
-            },
-            orderBy: { date: "desc" },
-            take: 1,
-          },
-          labelThreads: {
-            include: {
-              label: true,
-            },
-          },
-        },
+        include,
         orderBy: { lastMessageDate: "desc" },
         take: input.limit + 1,
         ...(input.cursor && {
@@ -362,7 +861,7 @@ export const gmailRouter = createTRPCRouter({
       }
 
       return {
-        threads,
+        threads: threads.map(thread => ({ ...thread, searchHighlight: null as SearchHighlight | null })),
         nextCursor,
       };
     }),
@@ -380,7 +879,8 @@ export const gmailRouter = createTRPCRouter({
         include: {
           messages: {
             include: {
-              attachments: true,
+              // Extracted attachment text is only for search
+              attachments: { omit: { textContent: true } },
             },
             orderBy: { date: "asc" },
           },
@@ -399,20 +899,52 @@ export const gmailRouter = createTRPCRouter({
         });
       }
 
-      // Mark as read
-      if (thread.unread) {
-        await ctx.db.thread.update({
-          where: { id: thread.id },
-          data: { unread: false },
-        });
-      }
-
       return thread;
     }),
 
+  getLabelCounts: protectedProcedure
+    .query(async ({ ctx }) => {
+      // One grouped query covers every label instead of a count per label
+      return await ctx.db.$queryRaw<Array<{ labelId: string; gmailLabelId: string; total: number; unread: number }>>`
+        SELECT
+          l."id" AS "labelId",
+          l."gmailLabelId",
+          count(t."id")::int AS "total",
+          count(t."id") FILTER (WHERE t."unread")::int AS "unread"
+        FROM "Label" l
+        LEFT JOIN "LabelThread" lt ON lt."labelId" = l."id"
+        LEFT JOIN "Thread" t ON t."id" = lt."threadId"
+        WHERE l."userId" = ${ctx.session.user.id}
+        GROUP BY l."id", l."gmailLabelId"
+      `;
+    }),
+
+  markRead: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.modifyThreadLabels(threadId, { remove: ["UNREAD"] })
+      );
+      return { success: true };
+    }),
+
+  markUnread: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.modifyThreadLabels(threadId, { add: ["UNREAD"] })
+      );
+      return { success: true };
+    }),
+
   getMessageContent: protectedProcedure
     .input(z.object({
       messageId: z.string(),
+      showImages: z.boolean().default(false), // Load remote images for this view
     }))
     .query(async ({ ctx, input }) => {
       const message = await ctx.db.message.findFirst({
@@ -431,17 +963,73 @@ export const gmailRouter = createTRPCRouter({
         });
       }
 
+      const sender = parseAddress(message.from);
+      const senderTrusted = sender
+        ? await ctx.db.trustedImageSender.count({
+            where: { userId: ctx.session.user.id, address: sender.address },
+          }) > 0
+        : false;
+
+      // Remote images stay blocked unless requested for this view or the sender is trusted
       let htmlContent = null;
+      let blockedImages = 0;
+      let imageOrigins: string[] = []; // Where the stored inline parts are served from
       if (message.htmlS3Key) {
-        htmlContent = await getFromS3(message.htmlS3Key);
+        const sanitized = await getSanitizedHtml(message.htmlS3Key);
+        if (sanitized !== null) {
+          // cid: references resolve to short-lived links to the stored inline parts
+          const inlineParts = await ctx.db.attachment.findMany({
+            where: { messageId: message.id, contentId: { not: null } },
+            select: { contentId: true, s3Key: true },
+          });
+          const inlineImageUrls: Record<string, string> = {};
+          for (const part of inlineParts) {
+            inlineImageUrls[part.contentId!] = await getPresignedUrl(part.s3Key);
+          }
+          imageOrigins = [...new Set(Object.values(inlineImageUrls).map(url => new URL(url).origin))];
+
+          const result = processRemoteImages(sanitized, {
+            showImages: input.showImages || senderTrusted,
+            inlineImageUrls,
+          });
+          htmlContent = result.html;
+          blockedImages = result.blockedImages;
+        }
       }
 
       return {
         html: htmlContent,
         text: message.textContent,
+        blockedImages,
+        imageOrigins,
+        senderAddress: sender?.address ?? null,
+        senderTrusted,
       };
     }),
 
+  setSenderImagePreference: protectedProcedure
+    .input(z.object({
+      address: z.string().email(),
+      alwaysShowImages: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const address = input.address.toLowerCase();
+
+      if (input.alwaysShowImages) {
+        await ctx.db.trustedImageSender.upsert({
+          where: { userId_address: { userId: ctx.session.user.id, address } },
+          update: {},
+          create: { userId: ctx.session.user.id, address },
+        });
+      } else {
+        await ctx.db.trustedImageSender.deleteMany({
+          where: { userId: ctx.session.user.id, address },
+        });
+      }
+
+      return { success: true };
+    }),
+
   getAttachmentUrl: protectedProcedure
     .input(z.object({
       attachmentId: z.string(),
@@ -477,70 +1065,550 @@ export const gmailRouter = createTRPCRouter({
       });
     }),
 
-  searchThreads: protectedProcedure
+  createLabel: protectedProcedure
     .input(z.object({
-      query: z.string().min(1),
-      limit: z.number().min(1).max(100).default(20),
+      name: labelNameSchema,
+      color: labelColorSchema.optional(),
     }))
-    .query(async ({ ctx, input }) => {
-      const threads = await ctx.db.thread.findMany({
-        where: {
-          userId: ctx.session.user.id,
-          OR: [
-            { subject: { contains: input.query, mode: "insensitive" } },
-            { snippet: { contains: input.query, mode: "insensitive" } },
-            {
-              messages: {
-                some: {
-                  from: { contains: input.query, mode: "insensitive" },
-                },
-              },
-            },
-          ],
-        },
-        include: {
-          messages: {
-            select: {
-              from: true,
-            },
-            orderBy: { date: "desc" },
-            take: 1,
-          },
-        },
-        orderBy: { lastMessageDate: "desc" },
-        take: input.limit,
-      });
-
-      return threads;
+    .mutation(async ({ ctx, input }) => {
+      const mailboxService = await getMailboxService(ctx.session.user.id);
+      return await updateGmailLabel(() => mailboxService.createLabel(input.name, input.color));
     }),
 
-  toggleStar: protectedProcedure
+  updateLabel: protectedProcedure
     .input(z.object({
-      threadId: z.string(),
-      starred: z.boolean(),
+      labelId: z.string(),
+      name: labelNameSchema.optional(),
+      color: labelColorSchema.optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const thread = await ctx.db.thread.update({
-        where: {
-          id: input.threadId,
+      const label = await ctx.db.label.findFirst({
+        where: { id: input.labelId, userId: ctx.session.user.id, type: "USER" },
+      });
+
+      if (!label) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Label not found",
+        });
+      }
+
+      const mailboxService = await getMailboxService(ctx.session.user.id);
+      return await updateGmailLabel(() => mailboxService.updateLabel(label.id, {
+        name: input.name,
+        color: input.color,
+      }));
+    }),
+
+  deleteLabel: protectedProcedure
+    .input(z.object({
+      labelId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const label = await ctx.db.label.findFirst({
+        where: { id: input.labelId, userId: ctx.session.user.id, type: "USER" },
+      });
+
+      if (!label) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Label not found",
+        });
+      }
+
+      const mailboxService = await getMailboxService(ctx.session.user.id);
+      await updateGmailLabel(() => mailboxService.deleteLabel(label.id));
+      return { success: true };
+    }),
+
+  addLabels: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+      labelIds: z.array(z.string()).min(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const labels = await ctx.db.label.findMany({
+        where: { id: { in: input.labelIds }, userId: ctx.session.user.id },
+        select: { gmailLabelId: true },
+      });
+
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.modifyThreadLabels(threadId, { add: labels.map(label => label.gmailLabelId) })
+      );
+      return { success: true };
+    }),
+
+  removeLabels: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+      labelIds: z.array(z.string()).min(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const labels = await ctx.db.label.findMany({
+        where: { id: { in: input.labelIds }, userId: ctx.session.user.id },
+        select: { gmailLabelId: true },
+      });
+
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.modifyThreadLabels(threadId, { remove: labels.map(label => label.gmailLabelId) })
+      );
+      return { success: true };
+    }),
+
+  searchThreads: protectedProcedure
+    .input(z.object({
+      query: z.string().min(1),
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      const search = buildThreadSearch(input.query, {
+        userId: ctx.session.user.id,
+        userEmail: ctx.session.user.email,
+        timezoneOffset: getTimezoneOffset(ctx.headers),
+      });
+      if (!search) return [];
+
+      const rankedIds = await findThreadIds(search, { limit: input.limit });
+
+      const threads = await ctx.db.thread.findMany({
+        where: { id: { in: rankedIds } },
+        include: {
+          messages: {
+            select: {
+              from: true,
+            },
+            orderBy: { date: "desc" },
+            take: 1,
+          },
+        },
+      });
+
+      return threads.sort((a, b) => rankedIds.indexOf(a.id) - rankedIds.indexOf(b.id));
+    }),
+
+  getSavedSearches: protectedProcedure
+    .query(async ({ ctx }) => {
+      const savedSearches = await ctx.db.savedSearch.findMany({
+        where: { userId: ctx.session.user.id },
+        orderBy: { position: "asc" },
+      });
+
+      return await Promise.all(savedSearches.map(async (savedSearch) => {
+        const search = buildThreadSearch(savedSearch.query, {
+          userId: ctx.session.user.id,
+          userEmail: ctx.session.user.email,
+          timezoneOffset: getTimezoneOffset(ctx.headers),
+        });
+        const unreadCount = search
+          ? await countThreads(search, Prisma.sql`t."unread"`)
+          : await ctx.db.thread.count({ where: { userId: ctx.session.user.id, unread: true } });
+        return { ...savedSearch, unreadCount };
+      }));
+    }),
+
+  createSavedSearch: protectedProcedure
+    .input(z.object({
+      name: savedSearchNameSchema,
+      query: savedSearchQuerySchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const last = await ctx.db.savedSearch.findFirst({
+        where: { userId: ctx.session.user.id },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+
+      return await ctx.db.savedSearch.create({
+        data: {
           userId: ctx.session.user.id,
+          name: input.name,
+          query: input.query,
+          position: (last?.position ?? -1) + 1,
+        },
+      });
+    }),
+
+  updateSavedSearch: protectedProcedure
+    .input(z.object({
+      savedSearchId: z.string(),
+      name: savedSearchNameSchema.optional(),
+      query: savedSearchQuerySchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.savedSearch.updateMany({
+        where: { id: input.savedSearchId, userId: ctx.session.user.id },
+        data: { name: input.name, query: input.query },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Saved search not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  deleteSavedSearch: protectedProcedure
+    .input(z.object({
+      savedSearchId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.savedSearch.deleteMany({
+        where: { id: input.savedSearchId, userId: ctx.session.user.id },
+      });
+      return { success: true };
+    }),
+
+  // Takes every saved search id in the new order
+  reorderSavedSearches: protectedProcedure
+    .input(z.object({
+      savedSearchIds: z.array(z.string()),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const owned = await ctx.db.savedSearch.count({
+        where: { id: { in: input.savedSearchIds }, userId: ctx.session.user.id },
+      });
+
+      if (owned !== new Set(input.savedSearchIds).size) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Saved search not found",
+        });
+      }
+
+      await ctx.db.$transaction(input.savedSearchIds.map((id, position) =>
+        ctx.db.savedSearch.update({ where: { id }, data: { position } })
+      ));
+      return { success: true };
+    }),
+
+  getSignatures: protectedProcedure
+    .query(async ({ ctx }) => {
+      const signatures = await ctx.db.signature.findMany({
+        where: { userId: ctx.session.user.id },
+        orderBy: [{ sendAsEmail: "asc" }, { name: "asc" }],
+      });
+      const sendAsAddresses = await getOwnAddresses(ctx.session.user.id, ctx.session.user.email);
+
+      // Mail is sent from the primary address, so its defaults are the ones the composers insert
+      const primaryAddress = ctx.session.user.email?.toLowerCase();
+      const own = signatures.filter(signature => signature.sendAsEmail === primaryAddress);
+
+      return {
+        signatures,
+        sendAsAddresses: [...new Set([...sendAsAddresses, ...signatures.map(signature => signature.sendAsEmail)])],
+        defaults: {
+          new: own.find(signature => signature.defaultForNew)?.id ?? null,
+          reply: own.find(signature => signature.defaultForReplies)?.id ?? null,
         },
+      };
+    }),
+
+  createSignature: protectedProcedure
+    .input(z.object({
+      name: signatureNameSchema,
+      html: signatureHtmlSchema,
+      sendAsEmail: z.string().email(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const sendAsEmail = input.sendAsEmail.toLowerCase();
+
+      // The first signature for an address becomes its default for everything
+      const existing = await ctx.db.signature.count({ where: { userId, sendAsEmail } });
+
+      return await ctx.db.signature.create({
         data: {
-          starred: input.starred,
+          userId,
+          name: input.name,
+          html: sanitizeEmailHtml(input.html),
+          sendAsEmail,
+          defaultForNew: existing === 0,
+          defaultForReplies: existing === 0,
         },
       });
+    }),
 
-      return thread;
+  updateSignature: protectedProcedure
+    .input(z.object({
+      signatureId: z.string(),
+      name: signatureNameSchema.optional(),
+      html: signatureHtmlSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.signature.updateMany({
+        where: { id: input.signatureId, userId: ctx.session.user.id },
+        data: {
+          name: input.name,
+          html: input.html !== undefined ? sanitizeEmailHtml(input.html) : undefined,
+        },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Signature not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  deleteSignature: protectedProcedure
+    .input(z.object({
+      signatureId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.signature.deleteMany({
+        where: { id: input.signatureId, userId: ctx.session.user.id },
+      });
+      return { success: true };
+    }),
+
+  setDefaultSignature: protectedProcedure
+    .input(z.object({
+      sendAsEmail: z.string().email(),
+      kind: signatureKindSchema,
+      signatureId: z.string().nullable(), // null for no signature
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const sendAsEmail = input.sendAsEmail.toLowerCase();
+
+      if (input.signatureId) {
+        const signature = await ctx.db.signature.findFirst({
+          where: { id: input.signatureId, userId: ctx.session.user.id, sendAsEmail },
+          select: { id: true },
+        });
+
+        if (!signature) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Signature not found",
+          });
+        }
+      }
+
+      await setDefaultSignature(ctx.session.user.id, sendAsEmail, input.kind, input.signatureId);
+      return { success: true };
+    }),
+
+  importGmailSignatures: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const userId = ctx.session.user.id;
+      const refreshToken = await getUserRefreshToken(userId);
+      if (!refreshToken) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Gmail not connected",
+        });
+      }
+
+      let gmailSignatures;
+      try {
+        gmailSignatures = await getSendAsSignatures(getGmailClient(refreshToken));
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to load signatures from Gmail",
+          cause: error,
+        });
+      }
+
+      // Importing again refreshes the earlier copy instead of adding another one
+      for (const gmailSignature of gmailSignatures) {
+        const html = sanitizeEmailHtml(gmailSignature.signature);
+        const imported = await ctx.db.signature.findFirst({
+          where: { userId, sendAsEmail: gmailSignature.address, importedFromGmail: true },
+          select: { id: true },
+        });
+
+        if (imported) {
+          await ctx.db.signature.update({ where: { id: imported.id }, data: { html } });
+          continue;
+        }
+
+        const defaults = await ctx.db.signature.findMany({
+          where: { userId, sendAsEmail: gmailSignature.address, OR: [{ defaultForNew: true }, { defaultForReplies: true }] },
+          select: { defaultForNew: true, defaultForReplies: true },
+        });
+        await ctx.db.signature.create({
+          data: {
+            userId,
+            name: gmailSignature.displayName ? `${gmailSignature.displayName} (Gmail)` : "Gmail signature",
+            html,
+            sendAsEmail: gmailSignature.address,
+            defaultForNew: !defaults.some(signature => signature.defaultForNew),
+            defaultForReplies: !defaults.some(signature => signature.defaultForReplies),
+            importedFromGmail: true,
+          },
+        });
+      }
+
+      return { imported: gmailSignatures.length };
+    }),
+
+  archive: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.archive(threadId)
+      );
+      return { success: true };
+    }),
+
+  trash: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.trash(threadId)
+      );
+      return { success: true };
+    }),
+
+  untrash: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.untrash(threadId)
+      );
+      return { success: true };
+    }),
+
+  deletePermanently: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.deletePermanently(threadId)
+      );
+      return { success: true };
+    }),
+
+  toggleStar: protectedProcedure
+    .input(z.object({
+      threadId: z.string(),
+      starred: z.boolean(),
+      messageId: z.string().optional(), // Star a single message instead of the thread
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await updateGmailThread(ctx.session.user.id, input.threadId, (mailbox, threadId) =>
+        mailbox.setStarred(threadId, input.starred, input.messageId)
+      );
+
+      return await ctx.db.thread.findUniqueOrThrow({
+        where: { id: input.threadId },
+      });
+    }),
+
+  getThreadIds: protectedProcedure
+    .input(threadFilterSchema)
+    .query(async ({ ctx, input }) => {
+      const { where, search } = buildThreadsWhere(ctx.session.user, input, getTimezoneOffset(ctx.headers));
+      const threadIds = search
+        ? await findThreadIds({ ...search, rankedTerms: [] }, { scope: search.scope, limit: MAX_THREAD_SELECTION + 1 })
+        : (await ctx.db.thread.findMany({
+            where,
+            select: { id: true },
+            orderBy: { lastMessageDate: "desc" },
+            take: MAX_THREAD_SELECTION + 1,
+          })).map(thread => thread.id);
+
+      return {
+        threadIds: threadIds.slice(0, MAX_THREAD_SELECTION),
+        truncated: threadIds.length > MAX_THREAD_SELECTION,
+      };
+    }),
+
+  batchUpdateThreads: protectedProcedure
+    .input(z.object({
+      threadIds: z.array(z.string()).min(1).max(MAX_BATCH_THREADS),
+      action: batchActionSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const mailboxService = await getMailboxService(ctx.session.user.id);
+      const { threadIds, action } = input;
+
+      switch (action.type) {
+        case "markRead":
+          return await mailboxService.batchModifyThreadLabels(threadIds, { remove: ["UNREAD"] });
+        case "markUnread":
+          return await mailboxService.batchModifyThreadLabels(threadIds, { add: ["UNREAD"] });
+        case "star":
+        case "unstar":
+          return await mailboxService.batchSetStarred(threadIds, action.type === "star");
+        case "archive":
+          return await mailboxService.batchArchive(threadIds);
+        case "trash":
+          return await mailboxService.batchTrash(threadIds);
+        case "addLabel":
+        case "removeLabel": {
+          const label = await ctx.db.label.findFirst({
+            where: { id: action.labelId, userId: ctx.session.user.id },
+            select: { gmailLabelId: true },
+          });
+          if (!label) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Label not found",
+            });
+          }
+
+          return await mailboxService.batchModifyThreadLabels(
+            threadIds,
+            action.type === "addLabel" ? { add: [label.gmailLabelId] } : { remove: [label.gmailLabelId] }
+          );
+        }
+      }
+    }),
+
+  getReplyRecipients: protectedProcedure
+    .input(z.object({
+      messageId: z.string(),
+      mode: z.enum(["reply", "replyAll"]),
+    }))
+    .query(async ({ ctx, input }) => {
+      const message = await ctx.db.message.findFirst({
+        where: { id: input.messageId, thread: { userId: ctx.session.user.id } },
+        select: { from: true, to: true, cc: true, replyTo: true, subject: true },
+      });
+
+      if (!message) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Message not found",
+        });
+      }
+
+      // Aliases count as our own addresses too
+      const ownAddresses = await getOwnAddresses(ctx.session.user.id, ctx.session.user.email);
+
+      return {
+        ...computeReplyRecipients(message, input.mode, ownAddresses),
+        subject: buildReplySubject(message.subject),
+      };
     }),
 
   sendReply: protectedProcedure
     .input(z.object({
       threadId: z.string().optional(), // Optional for new emails
+      replyToMessageId: z.string().optional(), // Message being answered; defaults to the thread's latest
+      draftId: z.string().optional(), // Draft to discard once the message is sent
       to: z.array(z.string().email("Invalid email address")),
       cc: z.array(z.string().email("Invalid email address")).default([]),
       bcc: z.array(z.string().email("Invalid email address")).default([]),
       subject: z.string(),
-      content: z.string(),
+      content: z.string().default(""), // Plain text; generated from the HTML when that is given
+      html: z.string().optional(), // Body from the rich-text composer
+      includeQuote: z.boolean().default(false), // Quote the message being answered below the reply
       attachmentKeys: z.array(z.string()).default([]),
       attachments: z.array(z.object({
         s3Key: z.string(),
@@ -550,6 +1618,8 @@ export const gmailRouter = createTRPCRouter({
       })).default([]),
     }))
     .mutation(async ({ ctx, input }) => {
+      assertOwnS3Keys(ctx.session.user.id, [...input.attachmentKeys, ...input.attachments.map(a => a.s3Key)]);
+
       const isNewEmail = !input.threadId || input.threadId === "";
       
       // Get thread and last message for proper threading (only for replies)
@@ -586,96 +1656,75 @@ export const gmailRouter = createTRPCRouter({
       }
 
       const gmail = getGmailClient(refreshToken);
-      const lastMessage = thread?.messages[0];
+      const parent = thread && input.replyToMessageId
+        ? await ctx.db.message.findFirst({ where: { id: input.replyToMessageId, threadId: thread.id } })
+        : thread?.messages[0];
+
+      if (input.replyToMessageId && !parent) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Message not found",
+        });
+      }
       
       // Build email headers
-      const messageId = `<${Date.now()}.${Math.random()}@gmail.com>`;
-      const references = lastMessage?.references || [];
-      if (lastMessage?.gmailMessageId) {
-        references.push(`<${lastMessage.gmailMessageId}>`);
-      }
+      const messageId = generateMessageId(getMessageIdDomain());
+      const { inReplyTo, references } = parent
+        ? await getReplyThreading(ctx.session.user.id, parent)
+        : { inReplyTo: null, references: [] };
 
-      const currentDate = new Date();
       const subjectText = input.subject || (thread ? `Re: ${thread.subject}` : "(no subject)");
 
-      // Handle new emails - create a new thread first
-      if (isNewEmail) {
-        // For new emails, we'll create the thread after sending via Gmail API
-        // to get the proper Gmail thread ID
-      }
+      // 1. Build the HTML and plain-text bodies, quoting the parent like Gmail does
+      let bodyHtml = input.html ?? textToHtml(input.content);
+      let content = input.html !== undefined ? htmlToPlainText(input.html) : input.content;
+      const quotedImages: MimeAttachment[] = [];
+      if (input.includeQuote && parent) {
+        const parentHtml = parent.htmlS3Key ? await getSanitizedHtml(parent.htmlS3Key) : null;
+        const quote = buildReplyQuote(parent, parentHtml, parent.textContent ?? parent.snippet);
+        bodyHtml = `${bodyHtml}<br>${quote.html}`;
+        content = `${content}\n\n${quote.text}`;
 
-      // 1. Prepare email with attachments
-      let email: string;
-      
-      if (input.attachmentKeys.length > 0) {
-        // Create multipart email with attachments
-        const boundary = `----=_NextPart_${Date.now()}_${Math.random().toString(36)}`;
-        
-        const headers = [
-          `Message-ID: ${messageId}`,
-          `From: ${ctx.session.user.email}`,
-          `To: ${input.to.join(", ")}`,
-          input.cc.length > 0 ? `Cc: ${input.cc.join(", ")}` : null,
-          input.bcc.length > 0 ? `Bcc: ${input.bcc.join(", ")}` : null,
-          `Subject: ${subjectText}`,
-          !isNewEmail && lastMessage ? `In-Reply-To: <${lastMessage.gmailMessageId}>` : null,
-          references.length > 0 ? `References: ${references.join(" ")}` : null,
-          `MIME-Version: 1.0`,
-          `Content-Type: multipart/mixed; boundary="${boundary}"`,
-        ].filter(Boolean);
-
-        // Email body part
-        let emailBody = headers.join("\r\n") + "\r\n\r\n";
-        emailBody += `--${boundary}\r\n`;
-        emailBody += `Content-Type: text/plain; charset=utf-8\r\n`;
-        emailBody += `Content-Transfer-Encoding: 7bit\r\n\r\n`;
-        emailBody += input.content + "\r\n\r\n";
-
-        // Add attachments
-        for (const s3Key of input.attachmentKeys) {
-          try {
-            // Get attachment from S3
-            const attachmentBuffer = await getFromS3AsBuffer(s3Key);
-            if (attachmentBuffer) {
-              const filename = s3Key.split('/').pop() || 'attachment';
-              const base64Content = attachmentBuffer.toString('base64');
-              
-              emailBody += `--${boundary}\r\n`;
-              emailBody += `Content-Type: application/octet-stream\r\n`;
-              emailBody += `Content-Transfer-Encoding: base64\r\n`;
-              emailBody += `Content-Disposition: attachment; filename="${filename}"\r\n\r\n`;
-              emailBody += base64Content + "\r\n\r\n";
-            }
-          } catch (error) {
-            console.error(`Failed to attach file ${s3Key}:`, error);
+        // The quoted HTML shows the parent's inline parts through cid:, so they travel with it
+        const inlineAttachments = parentHtml
+          ? await ctx.db.attachment.findMany({
+              where: { messageId: parent.id, inline: true, contentId: { not: null } },
+            })
+          : [];
+        for (const attachment of inlineAttachments) {
+          const imageContent = await getFromS3AsBuffer(attachment.s3Key);
+          if (!imageContent) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: `Failed to load the quoted image "${attachment.filename}"`,
+            });
           }
+          quotedImages.push({
+            filename: attachment.filename,
+            contentType: attachment.mimeType,
+            content: imageContent,
+            contentId: attachment.contentId!,
+          });
         }
+      }
+      const { html, images } = extractInlineImages(bodyHtml);
+      const inlineImages = [...images, ...quotedImages];
 
-        emailBody += `--${boundary}--\r\n`;
-        email = emailBody;
-      } else {
-        // Simple text email
-        const headers = [
-          `Message-ID: ${messageId}`,
-          `From: ${ctx.session.user.email}`,
-          `To: ${input.to.join(", ")}`,
-          input.cc.length > 0 ? `Cc: ${input.cc.join(", ")}` : null,
-          input.bcc.length > 0 ? `Bcc: ${input.bcc.join(", ")}` : null,
-          `Subject: ${subjectText}`,
-          !isNewEmail && lastMessage ? `In-Reply-To: <${lastMessage.gmailMessageId}>` : null,
-          references.length > 0 ? `References: ${references.join(" ")}` : null,
-          `Content-Type: text/plain; charset=utf-8`,
-          `MIME-Version: 1.0`,
-        ].filter(Boolean);
-
-        email = headers.join("\r\n") + "\r\n\r\n" + input.content;
-      }
-
-      const encodedMessage = Buffer.from(email, 'utf-8')
-        .toString("base64")
-        .replace(/\+/g, "-")
-        .replace(/\//g, "_")
-        .replace(/=+$/, "");
+      // 2. Prepare email with attachments
+      const encodedMessage = await buildRawEmail({
+        messageId,
+        from: ctx.session.user.email!,
+        to: input.to,
+        cc: input.cc,
+        bcc: input.bcc,
+        subject: subjectText,
+        content,
+        html,
+        inReplyTo,
+        references,
+        attachmentKeys: input.attachmentKeys,
+        attachments: inlineImages,
+      });
 
       const response = await gmail.users.messages.send({
         userId: "me",
@@ -685,106 +1734,34 @@ export const gmailRouter = createTRPCRouter({
         },
       });
 
-      // 2. For new emails, create thread in database
-      if (isNewEmail) {
-        thread = await ctx.db.thread.create({
-          data: {
-            userId: ctx.session.user.id,
-            gmailThreadId: response.data.threadId!,
-            subject: subjectText,
-            snippet: input.content.substring(0, 100),
-            lastMessageDate: currentDate,
-            unread: false, // Sent emails are not unread
-            starred: false,
-            important: false,
-            messageCount: 1,
-          },
-        });
-      } else if (thread) {
-        // 3. Update thread's last message date and increment message count for replies
-        await ctx.db.thread.update({
-          where: { id: thread.id },
-          data: {
-            lastMessageDate: currentDate,
-            messageCount: { increment: 1 },
-          },
-        });
-      }
-
-      // 4. Create sent message in database
-      const optimisticMessage = await ctx.db.message.create({
-        data: {
-          threadId: thread!.id,
-          gmailMessageId: response.data.id!,
-          gmailThreadId: response.data.threadId!,
-          from: ctx.session.user.email!,
-          to: input.to,
-          cc: input.cc,
-          bcc: input.bcc,
-          subject: subjectText,
-          snippet: input.content.substring(0, 100),
-          date: currentDate,
-          textContent: input.content,
-          inReplyTo: lastMessage?.gmailMessageId || null,
-          references: references,
-          labelIds: ["SENT"], // Mark as sent immediately
-        },
+      // 3. Store the sent message locally until sync picks it up
+      const optimisticMessage = await recordSentMessage(ctx.session.user.id, {
+        gmailMessageId: response.data.id!,
+        gmailThreadId: response.data.threadId!,
+        rfcMessageId: messageId,
+        from: ctx.session.user.email!,
+        to: input.to,
+        cc: input.cc,
+        bcc: input.bcc,
+        subject: subjectText,
+        content,
+        html,
+        inlineImages,
+        inReplyTo,
+        references,
+        attachments: input.attachments,
       });
 
-      // 5. Create attachment records for sent attachments
-      if (input.attachments.length > 0) {
-        for (const attachment of input.attachments) {
-          try {
-            await ctx.db.attachment.create({
-              data: {
-                messageId: optimisticMessage.id,
-                filename: attachment.filename,
-                mimeType: attachment.contentType,
-                size: attachment.size,
-                s3Key: attachment.s3Key,
-                gmailAttachmentId: `sent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // Generated ID for sent attachments
-              },
-            });
-          } catch (error) {
-            console.error(`Failed to create attachment record for ${attachment.s3Key}:`, error);
-          }
-        }
-      }
-
-      // 3. Ensure SENT label exists and associate with thread
-      let sentLabel = await ctx.db.label.findFirst({
-        where: {
-          userId: ctx.session.user.id,
-          gmailLabelId: "SENT",
-        },
-      });
-
-      if (!sentLabel) {
-        sentLabel = await ctx.db.label.create({
-          data: {
-            userId: ctx.session.user.id,
-            gmailLabelId: "SENT",
-            name: "Sent",
-            type: "SYSTEM",
-          },
+      // The draft has been sent, so drop it locally and from Gmail's Drafts folder
+      if (input.draftId) {
+        const draft = await ctx.db.draft.findFirst({
+          where: { id: input.draftId, userId: ctx.session.user.id },
         });
+        if (draft) {
+          await deleteDraft(ctx.session.user.id, draft);
+        }
       }
 
-      // Associate SENT label with thread
-      await ctx.db.labelThread.upsert({
-        where: {
-          labelId_threadId: {
-            labelId: sentLabel.id,
-            threadId: thread!.id,
-          },
-        },
-        create: {
-          labelId: sentLabel.id,
-          threadId: thread!.id,
-        },
-        update: {},
-      });
-
       console.log("Message sent successfully:", {
         messageId: response.data.id,
         threadId: response.data.threadId,
@@ -805,6 +1782,385 @@ export const gmailRouter = createTRPCRouter({
       };
     }),
 
+  getForwardPreview: protectedProcedure
+    .input(z.object({
+      messageId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const message = await ctx.db.message.findFirst({
+        where: { id: input.messageId, thread: { userId: ctx.session.user.id } },
+        select: {
+          from: true,
+          to: true,
+          cc: true,
+          subject: true,
+          date: true,
+          snippet: true,
+          textContent: true,
+          attachments: {
+            where: { inline: false },
+            select: { id: true, filename: true, mimeType: true, size: true },
+          },
+        },
+      });
+
+      if (!message) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Message not found",
+        });
+      }
+
+      return {
+        subject: buildForwardSubject(message.subject),
+        original: {
+          from: message.from,
+          to: message.to,
+          cc: message.cc,
+          subject: message.subject,
+          date: message.date,
+          text: message.textContent ?? message.snippet,
+        },
+        attachments: message.attachments,
+      };
+    }),
+
+  forwardMessage: protectedProcedure
+    .input(z.object({
+      messageId: z.string(),
+      draftId: z.string().optional(), // Draft to discard once the message is sent
+      to: z.array(z.string().email("Invalid email address")).min(1, "Add at least one recipient"),
+      cc: z.array(z.string().email("Invalid email address")).default([]),
+      bcc: z.array(z.string().email("Invalid email address")).default([]),
+      subject: z.string().optional(), // Defaults to "Fwd: <original subject>"
+      commentary: z.string().default(""),
+      commentaryHtml: z.string().optional(), // The note from the rich-text composer; replaces commentary
+      omitAttachmentIds: z.array(z.string()).default([]), // Original attachments to leave out
+      includeOriginalAsAttachment: z.boolean().default(false), // Also attach the original as an .eml file
+      attachmentKeys: z.array(z.string()).default([]),
+      attachments: z.array(z.object({
+        s3Key: z.string(),
+        filename: z.string(),
+        contentType: z.string(),
+        size: z.number(),
+      })).default([]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      assertOwnS3Keys(ctx.session.user.id, [...input.attachmentKeys, ...input.attachments.map(a => a.s3Key)]);
+
+      const original = await ctx.db.message.findFirst({
+        where: { id: input.messageId, thread: { userId: ctx.session.user.id } },
+        include: {
+          thread: { select: { gmailThreadId: true } },
+          attachments: true,
+        },
+      });
+
+      if (!original) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Message not found",
+        });
+      }
+
+      const refreshToken = await getUserRefreshToken(ctx.session.user.id);
+      if (!refreshToken) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Gmail not connected",
+        });
+      }
+
+      const gmail = getGmailClient(refreshToken);
+      const originalHtml = original.htmlS3Key ? await getSanitizedHtml(original.htmlS3Key) : null;
+      const originalText = original.textContent ?? original.snippet;
+
+      // Inline parts travel with the quoted HTML that shows them; the rest can be left out
+      const forwardedAttachments: MimeAttachment[] = [];
+      for (const attachment of original.attachments) {
+        if (!attachment.inline && input.omitAttachmentIds.includes(attachment.id)) continue;
+        if (attachment.inline && !originalHtml) continue;
+
+        const content = await getFromS3AsBuffer(attachment.s3Key);
+        if (!content) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to load the attachment "${attachment.filename}"`,
+          });
+        }
+        forwardedAttachments.push({
+          filename: attachment.filename,
+          contentType: attachment.mimeType,
+          content,
+          contentId: attachment.inline ? attachment.contentId ?? undefined : undefined,
+        });
+      }
+
+      if (input.includeOriginalAsAttachment) {
+        const filename = `${original.subject.replace(/[\\/:*?"<>|]/g, "_").trim().slice(0, 100) || "forwarded-message"}.eml`;
+        try {
+          forwardedAttachments.push({
+            filename,
+            contentType: "message/rfc822",
+            content: await getRawMessage(gmail, original.gmailMessageId),
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to load the original message from Gmail",
+            cause: error,
+          });
+        }
+      }
+
+      const forwarded = {
+        from: original.from,
+        date: original.date,
+        subject: original.subject,
+        to: original.to,
+        cc: original.cc,
+      };
+      const subjectText = input.subject || buildForwardSubject(original.subject);
+      const commentary = input.commentaryHtml !== undefined ? htmlToPlainText(input.commentaryHtml) : input.commentary;
+      const content = buildForwardText(commentary, forwarded, originalText);
+      const { html, images } = extractInlineImages(buildForwardHtml(
+        input.commentaryHtml ?? textToHtml(input.commentary),
+        forwarded,
+        originalHtml,
+        originalText
+      ));
+      const inlineImages = [...images, ...forwardedAttachments.filter(attachment => attachment.contentId)];
+
+      // Forwards stay in the original's conversation, as in Gmail
+      const messageId = generateMessageId(getMessageIdDomain());
+      const { inReplyTo, references } = await getReplyThreading(ctx.session.user.id, original);
+
+      const encodedMessage = await buildRawEmail({
+        messageId,
+        from: ctx.session.user.email!,
+        to: input.to,
+        cc: input.cc,
+        bcc: input.bcc,
+        subject: subjectText,
+        content,
+        html,
+        inReplyTo,
+        references,
+        attachmentKeys: input.attachmentKeys,
+        attachments: [...images, ...forwardedAttachments],
+      });
+
+      const response = await gmail.users.messages.send({
+        userId: "me",
+        requestBody: {
+          raw: encodedMessage,
+          threadId: original.thread.gmailThreadId,
+        },
+      });
+
+      const sentMessage = await recordSentMessage(ctx.session.user.id, {
+        gmailMessageId: response.data.id!,
+        gmailThreadId: response.data.threadId!,
+        rfcMessageId: messageId,
+        from: ctx.session.user.email!,
+        to: input.to,
+        cc: input.cc,
+        bcc: input.bcc,
+        subject: subjectText,
+        content,
+        html,
+        inlineImages,
+        inReplyTo,
+        references,
+        attachments: input.attachments,
+      });
+
+      if (input.draftId) {
+        const draft = await ctx.db.draft.findFirst({
+          where: { id: input.draftId, userId: ctx.session.user.id },
+        });
+        if (draft) {
+          await deleteDraft(ctx.session.user.id, draft);
+        }
+      }
+
+      return {
+        success: true,
+        messageId: response.data.id,
+        threadId: sentMessage.threadId,
+      };
+    }),
+
+  // Only drafts written in this app; drafts created in Gmail aren't imported
+  getDrafts: protectedProcedure
+    .query(async ({ ctx }) => {
+      return await ctx.db.draft.findMany({
+        where: { userId: ctx.session.user.id },
+        orderBy: { updatedAt: "desc" },
+      });
+    }),
+
+  getDraft: protectedProcedure
+    .input(z.object({
+      draftId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const draft = await ctx.db.draft.findFirst({
+        where: { id: input.draftId, userId: ctx.session.user.id },
+      });
+
+      if (!draft) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Draft not found",
+        });
+      }
+
+      const attachments = await Promise.all(draft.attachmentS3Keys.map(async (s3Key) => {
+        const info = await getS3ObjectInfo(s3Key);
+        return {
+          s3Key,
+          filename: s3Key.split("/").pop() || "attachment",
+          contentType: info?.contentType ?? "application/octet-stream",
+          size: info?.size ?? 0,
+        };
+      }));
+
+      return { ...draft, attachments };
+    }),
+
+  saveDraft: protectedProcedure
+    .input(z.object({
+      draftId: z.string().optional(), // Omit to create a new draft
+      threadId: z.string().optional(), // Set for reply drafts
+      replyToMessageId: z.string().optional(), // Message a reply draft answers; defaults to the thread's latest
+      to: z.array(z.string()).default([]),
+      cc: z.array(z.string()).default([]),
+      bcc: z.array(z.string()).default([]),
+      subject: z.string().default(""),
+      textContent: z.string().default(""),
+      htmlContent: z.string().default(""),
+      attachmentS3Keys: z.array(z.string()).default([]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      assertOwnS3Keys(userId, input.attachmentS3Keys);
+
+      const existing = input.draftId
+        ? await ctx.db.draft.findFirst({ where: { id: input.draftId, userId } })
+        : null;
+
+      if (input.draftId && !existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Draft not found",
+        });
+      }
+
+      // Reply drafts carry the threading headers of the message they answer
+      let gmailThreadId: string | undefined;
+      let inReplyTo = existing?.inReplyTo ?? null;
+      let references = existing?.references ?? [];
+      if (input.threadId) {
+        const thread = await ctx.db.thread.findFirst({
+          where: { id: input.threadId, userId },
+          include: {
+            messages: {
+              orderBy: { date: "desc" },
+              take: 1,
+            },
+          },
+        });
+
+        if (!thread) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Thread not found",
+          });
+        }
+
+        gmailThreadId = thread.gmailThreadId;
+        const parent = input.replyToMessageId
+          ? await ctx.db.message.findFirst({ where: { id: input.replyToMessageId, threadId: thread.id } })
+          : thread.messages[0];
+        if (!existing && parent) {
+          ({ inReplyTo, references } = await getReplyThreading(userId, parent));
+        }
+      }
+
+      const data = {
+        threadId: input.threadId ?? null,
+        to: input.to,
+        cc: input.cc,
+        bcc: input.bcc,
+        subject: input.subject,
+        // The composer writes HTML; the text is kept for previews and search
+        textContent: input.htmlContent ? htmlToPlainText(input.htmlContent) : input.textContent,
+        htmlContent: input.htmlContent,
+        attachmentS3Keys: input.attachmentS3Keys,
+        inReplyTo,
+        references,
+      };
+
+      let draft = existing
+        ? await ctx.db.draft.update({ where: { id: existing.id }, data })
+        : await ctx.db.draft.create({ data: { ...data, userId } });
+
+      // Mirror the draft into Gmail; the local copy is kept even if that fails
+      const mailboxService = await GmailMailboxService.create(userId);
+      if (mailboxService) {
+        try {
+          const { html, images } = extractInlineImages(draft.htmlContent);
+          const raw = await buildRawEmail({
+            from: ctx.session.user.email!,
+            to: draft.to,
+            cc: draft.cc,
+            bcc: draft.bcc,
+            subject: draft.subject,
+            content: draft.textContent,
+            html: html || undefined,
+            inReplyTo: draft.inReplyTo,
+            references: draft.references,
+            attachmentKeys: draft.attachmentS3Keys,
+            attachments: images,
+          });
+          const gmailDraftId = await mailboxService.saveGmailDraft(draft.gmailDraftId, raw, gmailThreadId);
+
+          if (gmailDraftId !== draft.gmailDraftId) {
+            draft = await ctx.db.draft.update({
+              where: { id: draft.id },
+              data: { gmailDraftId },
+            });
+          }
+        } catch (error) {
+          console.error(`Failed to sync draft ${draft.id} to Gmail:`, error);
+        }
+      }
+
+      return draft;
+    }),
+
+  deleteDraft: protectedProcedure
+    .input(z.object({
+      draftId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const draft = await ctx.db.draft.findFirst({
+        where: { id: input.draftId, userId: ctx.session.user.id },
+      });
+
+      if (!draft) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Draft not found",
+        });
+      }
+
+      await deleteDraft(ctx.session.user.id, draft);
+      return { success: true };
+    }),
+
   generateAIDraft: protectedProcedure
     .input(z.object({
       threadId: z.string(),
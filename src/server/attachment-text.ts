@@ -0,0 +1,104 @@
+import { extractText as extractPdfText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import ExcelJS from "exceljs";
+import { decodeCharset } from "./mime-parser";
+
+/**
+ * Local text extraction from attachments so search can look inside them.
+ * Supports PDF, DOCX, XLSX, CSV and other plain-text types; nothing leaves the
+ * server.
+ */
+
+// Larger files take too long to parse during sync and are rarely what people search for
+const MAX_EXTRACTION_BYTES = 20 * 1024 * 1024;
+// Indexed text per attachment; the rest of very long documents is dropped
+export const MAX_EXTRACTED_TEXT_LENGTH = 500_000;
+
+type AttachmentKind = "pdf" | "docx" | "xlsx" | "text";
+
+const TEXT_EXTENSIONS = new Set(["txt", "csv", "tsv", "md", "log", "json", "xml", "ics", "vcf", "eml"]);
+
+function getAttachmentKind(mimeType: string, filename: string): AttachmentKind | null {
+  const type = mimeType.toLowerCase();
+  const extension = filename.toLowerCase().split(".").pop() ?? "";
+
+  if (type === "application/pdf" || extension === "pdf") return "pdf";
+  if (type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || extension === "docx") {
+    return "docx";
+  }
+  if (type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" || extension === "xlsx") {
+    return "xlsx";
+  }
+  if (type.startsWith("text/") || type === "application/json" || TEXT_EXTENSIONS.has(extension)) return "text";
+
+  return null;
+}
+
+export function canExtractAttachmentText(mimeType: string, filename: string, size: number): boolean {
+  return size <= MAX_EXTRACTION_BYTES && getAttachmentKind(mimeType, filename) !== null;
+}
+
+async function extractXlsxText(content: Buffer): Promise<string> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs types its input as an ArrayBuffer; copy out exactly this buffer's bytes
+  const bytes = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+  await workbook.xlsx.load(bytes);
+
+  const lines: string[] = [];
+  workbook.eachSheet(sheet => {
+    lines.push(sheet.name);
+    sheet.eachRow(row => {
+      const cells: string[] = [];
+      row.eachCell(cell => {
+        if (cell.text) cells.push(cell.text);
+      });
+      if (cells.length > 0) lines.push(cells.join("\t"));
+    });
+  });
+  return lines.join("\n");
+}
+
+function extractPlainText(content: Buffer): string {
+  // Byte order marks tell us the encoding; otherwise UTF-8, falling back to windows-1252
+  if (content[0] === 0xff && content[1] === 0xfe) return new TextDecoder("utf-16le").decode(content);
+  if (content[0] === 0xfe && content[1] === 0xff) return new TextDecoder("utf-16be").decode(content);
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(content);
+  } catch {
+    return decodeCharset(content, "windows-1252");
+  }
+}
+
+/**
+ * Returns the text of an attachment, or null when its type isn't supported or
+ * it's too large. Throws when a supported file can't be parsed.
+ */
+export async function extractAttachmentText(
+  content: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<string | null> {
+  if (!canExtractAttachmentText(mimeType, filename, content.length)) return null;
+
+  let text: string;
+  switch (getAttachmentKind(mimeType, filename)) {
+    case "pdf": {
+      const pdf = await getDocumentProxy(new Uint8Array(content));
+      text = (await extractPdfText(pdf, { mergePages: true })).text;
+      break;
+    }
+    case "docx":
+      text = (await mammoth.extractRawText({ buffer: content })).value;
+      break;
+    case "xlsx":
+      text = await extractXlsxText(content);
+      break;
+    default:
+      text = extractPlainText(content);
+  }
+
+  // Postgres text can't hold NUL characters
+  const normalized = text.replace(/\u0000/g, "").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+  return normalized.slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+}
@@ -48,13 +48,33 @@ export const authConfig = {
             "https://www.googleapis.com/auth/gmail.readonly",
             "https://www.googleapis.com/auth/gmail.send",
             "https://www.googleapis.com/auth/gmail.compose",
-            "https://www.googleapis.com/auth/gmail.modify"
+            "https://www.googleapis.com/auth/gmail.modify",
+            // Required by threads.delete for permanently deleting mail
+            "https://mail.google.com/"
           ].join(" ")
         }
       }
     }),
   ],
   adapter: PrismaAdapter(db),
+  events: {
+    // The adapter only stores tokens when an account is first linked; signing in
+    // again (e.g. to grant a newly added scope) must replace them too
+    async signIn({ account }) {
+      if (account?.provider !== "google" || !account.refresh_token) return;
+
+      await db.account.updateMany({
+        where: { provider: "google", providerAccountId: account.providerAccountId },
+        data: {
+          access_token: account.access_token,
+          refresh_token: account.refresh_token,
+          expires_at: account.expires_at,
+          scope: account.scope,
+          id_token: account.id_token,
+        },
+      });
+    },
+  },
   callbacks: {
     async jwt({ token, account, user }) {
       // Persist the OAuth access_token and refresh_token to the token right after signin
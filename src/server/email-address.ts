@@ -0,0 +1,163 @@
+import { decodeEncodedWords } from "./mime-parser";
+
+/**
+ * RFC 5322 address-list and msg-id list parsing for incoming headers.
+ */
+
+export interface ParsedAddress {
+  name: string | null;
+  address: string; // Lower-cased so lookups and de-duplication are case-insensitive
+}
+
+type Token =
+  | { type: "atom" | "quoted" | "comment" | "angle"; value: string }
+  | { type: "special"; value: "," | ":" | ";" };
+
+function tokenize(header: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < header.length) {
+    const char = header[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      let value = "";
+      i++;
+      while (i < header.length && header[i] !== '"') {
+        if (header[i] === "\\" && i + 1 < header.length) i++;
+        value += header[i];
+        i++;
+      }
+      i++;
+      tokens.push({ type: "quoted", value });
+    } else if (char === "(") {
+      // Comments nest and may contain quoted pairs
+      let depth = 1;
+      let value = "";
+      i++;
+      while (i < header.length && depth > 0) {
+        const current = header[i]!;
+        if (current === "\\" && i + 1 < header.length) {
+          value += header[i + 1];
+          i += 2;
+          continue;
+        }
+        if (current === "(") depth++;
+        if (current === ")") depth--;
+        if (depth > 0) value += current;
+        i++;
+      }
+      tokens.push({ type: "comment", value: value.trim() });
+    } else if (char === "<") {
+      const end = header.indexOf(">", i);
+      const stop = end === -1 ? header.length : end;
+      tokens.push({ type: "angle", value: header.slice(i + 1, stop).trim() });
+      i = stop + 1;
+    } else if (char === "," || char === ":" || char === ";") {
+      tokens.push({ type: "special", value: char });
+      i++;
+    } else {
+      let value = "";
+      while (i < header.length && !/[\s"(<,:;]/.test(header[i]!)) {
+        value += header[i];
+        i++;
+      }
+      tokens.push({ type: "atom", value });
+    }
+  }
+
+  return tokens;
+}
+
+function normalizeAddress(address: string): string {
+  // An obsolete source route ("@relay:user@host") only keeps the final mailbox
+  return address.replace(/^(@[^:]+:)+/, "").replace(/\s+/g, "").toLowerCase();
+}
+
+function toMailbox(tokens: Token[]): ParsedAddress | null {
+  const angle = tokens.find(token => token.type === "angle");
+
+  if (angle) {
+    const nameParts = tokens
+      .slice(0, tokens.indexOf(angle))
+      .filter(token => token.type === "atom" || token.type === "quoted")
+      .map(token => token.value);
+    const name = decodeEncodedWords(nameParts.join(" ")).trim();
+    const address = normalizeAddress(angle.value);
+
+    return address ? { name: name || null, address } : null;
+  }
+
+  // Bare addr-spec, optionally followed by an old-style "(Full Name)" comment
+  const address = normalizeAddress(tokens
+    .filter(token => token.type === "atom" || token.type === "quoted")
+    .map(token => token.type === "quoted" ? `"${token.value}"` : token.value)
+    .join(""));
+  const comment = tokens.find(token => token.type === "comment");
+
+  return address.includes("@")
+    ? { name: comment ? decodeEncodedWords(comment.value).trim() || null : null, address }
+    : null;
+}
+
+/**
+ * Parses an address-list header (From, To, Cc, Bcc, Reply-To). Handles quoted
+ * display names containing commas, comments, RFC 2047 encoded words and
+ * groups ("Team: a@x.com, b@x.com;"), whose members are returned flattened.
+ */
+export function parseAddressList(header: string | null | undefined): ParsedAddress[] {
+  if (!header) return [];
+
+  const addresses: ParsedAddress[] = [];
+  let current: Token[] = [];
+
+  const flush = () => {
+    const mailbox = toMailbox(current);
+    if (mailbox) addresses.push(mailbox);
+    current = [];
+  };
+
+  for (const token of tokenize(header)) {
+    if (token.type !== "special") {
+      current.push(token);
+    } else if (token.value === ":" && !current.some(t => t.type === "angle")) {
+      current = []; // Group display name; its members follow
+    } else {
+      flush(); // "," between mailboxes or ";" closing a group
+    }
+  }
+  flush();
+
+  return addresses;
+}
+
+export function parseAddress(header: string | null | undefined): ParsedAddress | null {
+  return parseAddressList(header)[0] ?? null;
+}
+
+// Display form stored on messages, e.g. "Jane Doe <jane@example.com>". Names
+// containing specials are quoted so the stored value parses back the same way
+export function formatParsedAddress({ name, address }: ParsedAddress): string {
+  if (!name) return address;
+
+  const displayName = /[()<>\[\]:;@\\,."]/.test(name) ? `"${name.replace(/(["\\])/g, "\\$1")}"` : name;
+  return `${displayName} <${address}>`;
+}
+
+/**
+ * Parses a msg-id list (References, In-Reply-To) into "<id@host>" entries.
+ * Ids missing their angle brackets, as some clients send them, are wrapped.
+ */
+export function parseMessageIdList(header: string | null | undefined): string[] {
+  if (!header) return [];
+
+  const bracketed = header.match(/<[^<>\s]+>/g);
+  if (bracketed) return bracketed;
+
+  return header
+    .split(/[\s,]+/)
+    .filter(id => id.includes("@"))
+    .map(id => `<${id}>`);
+}
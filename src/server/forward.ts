@@ -0,0 +1,70 @@
+import { escapeHtml, textToHtml } from "~/lib/html";
+import { QUOTE_STYLE } from "./reply";
+
+/**
+ * Subject and body of a forwarded message, laid out the way Gmail forwards:
+ * the sender's note, a "Forwarded message" header block, then the original.
+ */
+
+export interface ForwardedMessage {
+  from: string;
+  date: Date;
+  subject: string;
+  to: string[];
+  cc: string[];
+}
+
+const FORWARD_SEPARATOR = "---------- Forwarded message ----------";
+
+export function buildForwardSubject(subject: string): string {
+  return /^fwd?:/i.test(subject.trim()) ? subject : `Fwd: ${subject}`;
+}
+
+function forwardedHeaderLines(original: ForwardedMessage): Array<[string, string]> {
+  const lines: Array<[string, string]> = [
+    ["From", original.from],
+    ["Date", original.date.toUTCString()],
+    ["Subject", original.subject],
+    ["To", original.to.join(", ")],
+    ["Cc", original.cc.join(", ")],
+  ];
+  return lines.filter(([, value]) => value);
+}
+
+export function buildForwardText(commentary: string, original: ForwardedMessage, originalText: string): string {
+  return [
+    commentary.trimEnd(),
+    "",
+    FORWARD_SEPARATOR,
+    ...forwardedHeaderLines(original).map(([name, value]) => `${name}: ${value}`),
+    "",
+    originalText,
+  ].join("\n").trimStart();
+}
+
+/**
+ * The sender's note comes from the composer as HTML. The original body is
+ * quoted as sanitized HTML, so cid: images keep pointing at the inline parts
+ * sent along with the forward. Messages without an HTML body quote their text
+ * instead.
+ */
+export function buildForwardHtml(
+  commentaryHtml: string,
+  original: ForwardedMessage,
+  originalHtml: string | null,
+  originalText: string
+): string {
+  const headers = forwardedHeaderLines(original)
+    .map(([name, value]) => `${name}: ${escapeHtml(value)}`)
+    .join("<br>");
+
+  return [
+    commentaryHtml.trim() ? `<div dir="ltr">${commentaryHtml}</div><br>` : "",
+    `<div class="gmail_quote">`,
+    `<div dir="ltr" class="gmail_attr">${FORWARD_SEPARATOR}<br>${headers}<br></div><br>`,
+    `<blockquote class="gmail_quote" style="${QUOTE_STYLE}">`,
+    originalHtml ?? `<div dir="ltr">${textToHtml(originalText)}</div>`,
+    `</blockquote>`,
+    `</div>`,
+  ].join("");
+}
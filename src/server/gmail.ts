@@ -1,7 +1,17 @@
-import { google } from "googleapis";
+import { google, type gmail_v1 } from "googleapis";
 import { type OAuth2Client } from "google-auth-library";
 import { db } from "./db";
 import { env } from "~/env";
+import {
+  decodeBase64Url,
+  decodeCharset,
+  decodeEncodedWords,
+  parseHeaderValue,
+  parseRawMimeEntity,
+  type RawMimeEntity,
+} from "./mime-parser";
+import { parseMessageIdList } from "./email-address";
+import { escapeHtml } from "~/lib/html";
 
 export function getGmailClient(refreshToken: string) {
   const oauth2Client = new google.auth.OAuth2(
@@ -51,110 +61,234 @@ export interface GmailThread {
   historyId: string;
 }
 
+export interface GmailMessagePart {
+  mimeType?: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: {
+    attachmentId?: string;
+    size: number;
+    data?: string;
+  };
+  parts?: GmailMessagePart[];
+}
+
 export interface GmailMessage {
   id: string;
   threadId: string;
   labelIds: string[];
   snippet: string;
-  payload: {
+  payload: GmailMessagePart & {
     headers: Array<{ name: string; value: string }>;
-    parts?: Array<{
-      mimeType: string;
-      body: {
-        attachmentId?: string;
-        size: number;
-        data?: string;
-      };
-      filename?: string;
-      headers?: Array<{ name: string; value: string }>;
-      parts?: any[];
-    }>;
-    body?: {
-      size: number;
-      data?: string;
-    };
-    mimeType?: string;
   };
   internalDate: string;
 }
 
+export interface GmailLabelColor {
+  textColor: string;
+  backgroundColor: string;
+}
+
 export interface GmailLabel {
   id: string;
   name: string;
   type: string;
   messageListVisibility?: string;
   labelListVisibility?: string;
-  color?: {
-    textColor: string;
-    backgroundColor: string;
+  color?: GmailLabelColor;
+}
+
+export interface ExtractedAttachment {
+  filename: string;
+  mimeType: string;
+  attachmentId: string;
+  size: number;
+  inline: boolean; // Embedded in the HTML body through a cid: reference rather than attached
+  contentId: string | null; // Content-ID without angle brackets
+}
+
+// A MIME part either as Gmail parsed it or as parsed from a raw message/rfc822 body
+interface ContentNode {
+  mimeType: string;
+  filename: string;
+  headers: Array<{ name: string; value: string }>;
+  attachmentId?: string;
+  size: number;
+  body: Buffer | null; // Transfer encoding already removed
+  parts: ContentNode[];
+}
+
+function fromGmailPart(part: GmailMessagePart): ContentNode {
+  return {
+    mimeType: part.mimeType?.toLowerCase() ?? "",
+    filename: part.filename ?? "",
+    headers: part.headers ?? [],
+    attachmentId: part.body?.attachmentId,
+    size: part.body?.size ?? 0,
+    // Gmail has already undone the Content-Transfer-Encoding, but not the charset
+    body: part.body?.data ? decodeBase64Url(part.body.data) : null,
+    parts: (part.parts ?? []).map(fromGmailPart),
   };
 }
 
+function fromRawEntity(entity: RawMimeEntity): ContentNode {
+  const contentType = parseHeaderValue(getHeaderValue(entity.headers, "Content-Type"));
+  const disposition = parseHeaderValue(getHeaderValue(entity.headers, "Content-Disposition"));
+
+  return {
+    mimeType: contentType.value,
+    filename: disposition.params.filename ?? contentType.params.name ?? "",
+    headers: entity.headers,
+    size: entity.body.length,
+    body: entity.body,
+    parts: entity.parts.map(fromRawEntity),
+  };
+}
+
+const FORWARDED_HEADERS = ["From", "Date", "Subject", "To", "Cc"];
+
+/**
+ * Walks the MIME tree of a Gmail message. Text and HTML body parts are decoded
+ * using their declared charset and concatenated in order; parts marked as
+ * attachments (or that aren't text) are listed as attachments, and forwarded
+ * message/rfc822 parts are rendered inline below a header block.
+ */
 export function extractEmailContent(message: GmailMessage): {
   html: string | null;
   text: string | null;
-  attachments: Array<{
-    filename: string;
-    mimeType: string;
-    attachmentId: string;
-    size: number;
-  }>;
+  attachments: ExtractedAttachment[];
 } {
-  const result = {
-    html: null as string | null,
-    text: null as string | null,
-    attachments: [] as Array<{
-      filename: string;
-      mimeType: string;
-      attachmentId: string;
-      size: number;
-    }>,
-  };
+  const htmlParts: string[] = [];
+  const textParts: string[] = [];
+  const attachments: ExtractedAttachment[] = [];
+  let hasHtmlBody = false;
+
+  function addAttachment(node: ContentNode) {
+    // Parts of a raw embedded message have no Gmail attachment id and can't be downloaded
+    if (!node.attachmentId) return;
+
+    attachments.push({
+      filename: node.filename || "attachment",
+      mimeType: node.mimeType || "application/octet-stream",
+      attachmentId: node.attachmentId,
+      size: node.size,
+      inline: false, // Decided once the HTML body is known
+      contentId: getHeaderValue(node.headers, "Content-ID").replace(/^<|>$/g, "") || null,
+    });
+  }
 
-  function processPayloadPart(part: any): void {
-    if (!part) return;
-
-    // Handle attachments
-    if (part.filename && part.body?.attachmentId) {
-      result.attachments.push({
-        filename: part.filename,
-        mimeType: part.mimeType,
-        attachmentId: part.body.attachmentId,
-        size: part.body.size,
-      });
+  function processForwardedMessage(node: ContentNode) {
+    const embedded = node.parts.length > 0 || !node.body
+      ? node.parts
+      : [fromRawEntity(parseRawMimeEntity(node.body))];
+
+    // The embedded message's own headers live on its root part
+    const headerSource = embedded.find(part => getHeaderValue(part.headers, "From")) ?? node;
+    const headerLines = FORWARDED_HEADERS
+      .map(name => [name, decodeEncodedWords(getHeaderValue(headerSource.headers, name))] as const)
+      .filter(([, value]) => value);
+
+    textParts.push([
+      "---------- Forwarded message ----------",
+      ...headerLines.map(([name, value]) => `${name}: ${value}`),
+      "",
+    ].join("\n"));
+    htmlParts.push(
+      `<div class="forwarded-message"><p>---------- Forwarded message ----------<br>${
+        headerLines.map(([name, value]) => `${name}: ${escapeHtml(value)}`).join("<br>")
+      }</p></div>`
+    );
+
+    embedded.forEach(processNode);
+  }
+
+  function processNode(node: ContentNode) {
+    const contentType = parseHeaderValue(getHeaderValue(node.headers, "Content-Type"));
+    const disposition = parseHeaderValue(getHeaderValue(node.headers, "Content-Disposition"));
+    const mimeType = node.mimeType || contentType.value || "text/plain";
+    const isAttachment = disposition.value === "attachment";
+
+    if (mimeType.startsWith("multipart/")) {
+      node.parts.forEach(processNode);
       return;
     }
 
-    // Handle content
-    if (part.mimeType === "text/html" && part.body?.data) {
-      result.html = Buffer.from(part.body.data, "base64").toString("utf-8");
-    } else if (part.mimeType === "text/plain" && part.body?.data) {
-      result.text = Buffer.from(part.body.data, "base64").toString("utf-8");
+    if (mimeType === "message/rfc822") {
+      if (isAttachment) {
+        addAttachment({ ...node, filename: node.filename || "forwarded-message.eml" });
+      } else {
+        processForwardedMessage(node);
+      }
+      return;
     }
 
-    // Recursively process parts
-    if (part.parts) {
-      for (const subPart of part.parts) {
-        processPayloadPart(subPart);
+    const isBodyText = (mimeType === "text/plain" || mimeType === "text/html") &&
+      !isAttachment &&
+      (!node.filename || disposition.value === "inline");
+
+    if (isBodyText && node.body) {
+      const content = decodeCharset(node.body, contentType.params.charset);
+      if (mimeType === "text/html") {
+        hasHtmlBody = true;
+        htmlParts.push(content);
+      } else {
+        textParts.push(content);
       }
+      return;
     }
+
+    addAttachment(node);
   }
 
-  // Start processing from the main payload
-  if (message.payload.parts) {
-    for (const part of message.payload.parts) {
-      processPayloadPart(part);
-    }
-  } else if (message.payload.body?.data) {
-    // Simple message with body at root level
-    if (message.payload.mimeType === "text/html") {
-      result.html = Buffer.from(message.payload.body.data, "base64").toString("utf-8");
-    } else if (message.payload.mimeType === "text/plain") {
-      result.text = Buffer.from(message.payload.body.data, "base64").toString("utf-8");
-    }
+  processNode(fromGmailPart(message.payload));
+
+  // Parts the HTML shows through cid: references are images, not downloads
+  const html = htmlParts.join("\n");
+  for (const attachment of attachments) {
+    attachment.inline = !!attachment.contentId && html.includes(`cid:${attachment.contentId}`);
   }
 
-  return result;
+  return {
+    // Forwarded header blocks alone don't make an HTML body
+    html: hasHtmlBody ? html : null,
+    text: textParts.length > 0 ? textParts.join("\n") : null,
+    attachments,
+  };
+}
+
+export function getGmailErrorStatus(error: unknown): number | undefined {
+  const gaxiosError = error as { code?: number | string; response?: { status?: number } } | null;
+  return gaxiosError?.response?.status ?? (Number(gaxiosError?.code) || undefined);
+}
+
+/**
+ * A thread's flags and Gmail label ids derived from its messages the way Gmail
+ * does: the thread carries a label while any of its messages does. Shared by
+ * the sync and local label changes so both store the same state.
+ */
+export function getThreadLabelState(messages: Array<{ labelIds?: string[] | null }>) {
+  const gmailLabelIds = [...new Set(messages.flatMap(message => message.labelIds ?? []))];
+
+  return {
+    unread: gmailLabelIds.includes("UNREAD"),
+    starred: gmailLabelIds.includes("STARRED"),
+    important: gmailLabelIds.includes("IMPORTANT"),
+    gmailLabelIds,
+  };
+}
+
+export function isNotFoundError(error: unknown): boolean {
+  return getGmailErrorStatus(error) === 404;
+}
+
+// Tokens granted before a scope was added to the sign-in request lack it until
+// the user reconnects; Gmail rejects those calls with a 403
+export function isInsufficientScopeError(error: unknown): boolean {
+  if (getGmailErrorStatus(error) !== 403) return false;
+
+  const body = (error as { response?: { data?: unknown } }).response?.data;
+  return /insufficientPermissions|ACCESS_TOKEN_SCOPE_INSUFFICIENT|insufficient authentication scopes/i
+    .test(JSON.stringify(body ?? (error as Error).message ?? ""));
 }
 
 export function getHeaderValue(headers: Array<{ name: string; value: string }>, name: string): string {
@@ -162,8 +296,46 @@ export function getHeaderValue(headers: Array<{ name: string; value: string }>,
   return header?.value ?? "";
 }
 
-export function parseEmailAddresses(addresses: string): string[] {
-  if (!addresses) return [];
-  // Simple email parsing - in production, use a proper email parser
-  return addresses.split(",").map(addr => addr.trim()).filter(Boolean);
-}
\ No newline at end of file
+// Primary address and aliases from the user's "Send mail as" settings, lower-cased
+export async function getSendAsAddresses(gmail: gmail_v1.Gmail): Promise<string[]> {
+  const response = await gmail.users.settings.sendAs.list({ userId: "me" });
+  return (response.data.sendAs ?? [])
+    .map(sendAs => sendAs.sendAsEmail?.toLowerCase())
+    .filter((address): address is string => !!address);
+}
+
+// Signatures configured in Gmail for each "Send mail as" address
+export async function getSendAsSignatures(
+  gmail: gmail_v1.Gmail
+): Promise<Array<{ address: string; displayName: string; signature: string }>> {
+  const response = await gmail.users.settings.sendAs.list({ userId: "me" });
+  return (response.data.sendAs ?? [])
+    .filter(sendAs => sendAs.sendAsEmail && sendAs.signature?.trim())
+    .map(sendAs => ({
+      address: sendAs.sendAsEmail!.toLowerCase(),
+      displayName: sendAs.displayName ?? "",
+      signature: sendAs.signature!,
+    }));
+}
+
+// The RFC 5322 Message-ID of a message ("<id@host>"), which replies must reference
+export async function getMessageIdHeader(gmail: gmail_v1.Gmail, gmailMessageId: string): Promise<string | null> {
+  const response = await gmail.users.messages.get({
+    userId: "me",
+    id: gmailMessageId,
+    format: "metadata",
+    metadataHeaders: ["Message-ID"],
+  });
+  const header = response.data.payload?.headers?.find(h => h.name?.toLowerCase() === "message-id");
+  return parseMessageIdList(header?.value)[0] ?? null;
+}
+
+// The complete RFC 822 source of a message, as forwarded attachments carry it
+export async function getRawMessage(gmail: gmail_v1.Gmail, gmailMessageId: string): Promise<Buffer> {
+  const response = await gmail.users.messages.get({
+    userId: "me",
+    id: gmailMessageId,
+    format: "raw",
+  });
+  return Buffer.from(response.data.raw ?? "", "base64url");
+}
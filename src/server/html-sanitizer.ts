@@ -0,0 +1,282 @@
+import { parseDocument } from "htmlparser2";
+import { isTag, isText, type ChildNode, type Element } from "domhandler";
+
+/**
+ * Allowlist sanitizer for message bodies. The HTML is parsed, unknown elements
+ * are unwrapped, dangerous ones dropped with their content, and only safe
+ * attributes, URLs and CSS survive. <style> blocks are kept but scoped to the
+ * message container so they can't restyle anything around it.
+ */
+
+// Bump when the rules change so cached sanitized bodies are regenerated
+export const SANITIZER_VERSION = 3;
+
+export const MESSAGE_CONTAINER_CLASS = "email-body";
+
+const ALLOWED_TAGS = new Set([
+  "a", "abbr", "address", "article", "aside", "b", "bdi", "bdo", "big", "blockquote", "br",
+  "caption", "center", "cite", "code", "col", "colgroup", "dd", "del", "dfn", "div", "dl", "dt",
+  "em", "figcaption", "figure", "font", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header",
+  "hr", "i", "img", "ins", "kbd", "li", "main", "mark", "nav", "ol", "p", "pre", "q", "s", "samp",
+  "section", "small", "span", "strike", "strong", "sub", "sup", "table", "tbody", "td", "tfoot",
+  "th", "thead", "time", "tr", "tt", "u", "ul", "var", "wbr",
+]);
+
+const VOID_TAGS = new Set(["br", "col", "hr", "img", "wbr"]);
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "noscript", "iframe", "frame", "frameset", "object", "embed", "applet", "form",
+  "input", "button", "select", "option", "textarea", "link", "meta", "base", "title", "svg",
+  "math", "template", "audio", "video", "source", "track", "canvas", "portal",
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  "align", "valign", "bgcolor", "color", "dir", "lang", "title", "width", "height", "border",
+  "cellpadding", "cellspacing", "colspan", "rowspan", "span", "style", "class", "id", "face",
+  "size", "alt", "href", "src", "start", "type", "nowrap", "abbr", "headers", "scope", "summary",
+  "datetime", "cite", "background",
+]);
+
+const URL_ATTRIBUTES = new Set(["href", "src", "cite", "background"]);
+
+const ALLOWED_CSS_PROPERTIES = new Set([
+  "background", "background-color", "background-image", "background-position", "background-repeat",
+  "background-size", "border", "border-bottom", "border-bottom-color", "border-bottom-left-radius",
+  "border-bottom-right-radius", "border-bottom-style", "border-bottom-width", "border-collapse",
+  "border-color", "border-left", "border-left-color", "border-left-style", "border-left-width",
+  "border-radius", "border-right", "border-right-color", "border-right-style", "border-right-width",
+  "border-spacing", "border-style", "border-top", "border-top-color", "border-top-left-radius",
+  "border-top-right-radius", "border-top-style", "border-top-width", "border-width", "box-sizing",
+  "caption-side", "clear", "color", "direction", "display", "empty-cells", "float", "font",
+  "font-family", "font-size", "font-style", "font-variant", "font-weight", "height", "letter-spacing",
+  "line-height", "list-style", "list-style-position", "list-style-type", "margin", "margin-bottom",
+  "margin-left", "margin-right", "margin-top", "max-height", "max-width", "min-height", "min-width",
+  "opacity", "outline", "overflow", "overflow-wrap", "padding", "padding-bottom", "padding-left",
+  "padding-right", "padding-top", "table-layout", "text-align", "text-decoration", "text-indent",
+  "text-overflow", "text-transform", "vertical-align", "visibility", "white-space", "width",
+  "word-break", "word-spacing", "word-wrap",
+]);
+
+const SAFE_IMAGE_DATA_URL = /^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=\s]+$/i;
+
+/**
+ * Returns the URL if it's safe for the given attribute, null otherwise. Links
+ * may point to web, mail and phone targets; images to web, cid: parts and
+ * inline raster data.
+ */
+function sanitizeUrl(value: string, attribute: string): string | null {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, "");
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1]?.toLowerCase();
+
+  if (attribute === "href") {
+    if (!scheme) return url.startsWith("#") ? value.trim() : null;
+    return ["http", "https", "mailto", "tel"].includes(scheme) ? value.trim() : null;
+  }
+
+  if (scheme === "http" || scheme === "https" || scheme === "cid") return value.trim();
+  if (scheme === "data" && SAFE_IMAGE_DATA_URL.test(value.trim())) return value.trim();
+  return null;
+}
+
+function isSafeCssValue(value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (/expression\s*\(|javascript:|vbscript:|@import|-moz-binding|behavior|[<>\\]/.test(normalized)) {
+    return false;
+  }
+
+  // image-set() and image() load plain string URLs that the image blocking can't see
+  if (/\bimage(-set)?\s*\(/.test(normalized)) return false;
+
+  // Every url() must itself be a safe image URL
+  const urls = normalized.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/g);
+  for (const [, , url = ""] of urls) {
+    if (!sanitizeUrl(url, "src")) return false;
+  }
+  return !/url\(/.test(normalized.replace(/url\(\s*(['"]?)(.*?)\1\s*\)/g, ""));
+}
+
+// Splits on a separator outside of quotes and parentheses
+function splitCss(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+export function sanitizeCssDeclarations(css: string): string {
+  return splitCss(css, ";")
+    .map(declaration => {
+      const separator = declaration.indexOf(":");
+      if (separator === -1) return null;
+
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (!ALLOWED_CSS_PROPERTIES.has(property) || !value || !isSafeCssValue(value)) return null;
+
+      return `${property}: ${value}`;
+    })
+    .filter((declaration): declaration is string => declaration !== null)
+    .join("; ");
+}
+
+function scopeSelector(selector: string): string | null {
+  const trimmed = selector.trim();
+  if (!trimmed || /[<\\]/.test(trimmed)) return null;
+
+  // Rules aimed at the document itself apply to the message container instead
+  const rooted = trimmed.replace(/^(html|body|:root)(\s+(html|body))?\b/i, "");
+  // A leading sibling combinator would reach past the container into the page
+  if (/^\s*[~+]/.test(rooted)) return null;
+
+  const scope = `.${MESSAGE_CONTAINER_CLASS}`;
+  return rooted === trimmed ? `${scope} ${trimmed}` : `${scope}${rooted}`;
+}
+
+/**
+ * Sanitizes a stylesheet: declarations go through the property allowlist,
+ * selectors are prefixed with the message container, @media blocks are kept
+ * and every other at-rule (@import, @font-face, ...) is dropped.
+ */
+export function sanitizeStylesheet(css: string): string {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "").replace(/<!--|-->/g, "");
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf("{", index);
+    if (open === -1) break;
+
+    const prelude = source.slice(index, open).trim();
+
+    // Find the matching closing brace
+    let depth = 1;
+    let close = open + 1;
+    while (close < source.length && depth > 0) {
+      if (source[close] === "{") depth++;
+      if (source[close] === "}") depth--;
+      close++;
+    }
+    const block = source.slice(open + 1, close - 1);
+    index = close;
+
+    // Statement at-rules such as @import end with ";" before the next block
+    const statement = prelude.lastIndexOf(";");
+    const selectorText = statement === -1 ? prelude : prelude.slice(statement + 1).trim();
+
+    if (selectorText.startsWith("@")) {
+      if (/^@media\b/i.test(selectorText) && !/[{};<>\\]/.test(selectorText)) {
+        const inner = sanitizeStylesheet(block);
+        if (inner) output.push(`${selectorText} {\n${inner}\n}`);
+      }
+      continue;
+    }
+
+    const selectors = splitCss(selectorText, ",")
+      .map(scopeSelector)
+      .filter((selector): selector is string => selector !== null);
+    const declarations = sanitizeCssDeclarations(block);
+    if (selectors.length > 0 && declarations) {
+      output.push(`${selectors.join(", ")} { ${declarations} }`);
+    }
+  }
+
+  return output.join("\n");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+function sanitizeAttributes(element: Element): string {
+  const attributes: string[] = [];
+  let hasHref = false;
+
+  for (const [rawName, rawValue] of Object.entries(element.attribs)) {
+    const name = rawName.toLowerCase();
+    if (!ALLOWED_ATTRIBUTES.has(name)) continue;
+
+    let value: string | null = rawValue;
+    if (URL_ATTRIBUTES.has(name)) {
+      value = sanitizeUrl(rawValue, name === "href" ? "href" : "src");
+    } else if (name === "style") {
+      value = sanitizeCssDeclarations(rawValue);
+    }
+
+    if (value) {
+      attributes.push(`${name}="${escapeAttribute(value)}"`);
+      if (name === "href") hasHref = true;
+    }
+  }
+
+  // Links open outside the message frame without leaking where they came from
+  if (element.name === "a" && hasHref) {
+    attributes.push(`target="_blank"`, `rel="noopener noreferrer"`);
+  }
+
+  return attributes.length > 0 ? ` ${attributes.join(" ")}` : "";
+}
+
+export function sanitizeEmailHtml(html: string): string {
+  const document = parseDocument(html, { lowerCaseTags: true, lowerCaseAttributeNames: true });
+  const stylesheets: string[] = [];
+
+  const serialize = (nodes: ChildNode[]): string => nodes.map(node => {
+    if (isText(node)) return escapeText(node.data);
+    if (!isTag(node)) return ""; // Comments, CDATA, processing instructions
+
+    const name = node.name.toLowerCase();
+
+    if (name === "style") {
+      stylesheets.push(node.children.map(child => (isText(child) ? child.data : "")).join(""));
+      return "";
+    }
+
+    if (name === "head") {
+      // Only the stylesheets of the head are kept
+      serialize(node.children);
+      return "";
+    }
+
+    if (DROPPED_TAGS.has(name)) return "";
+
+    const children = serialize(node.children);
+    if (!ALLOWED_TAGS.has(name)) return children; // html, body, unknown tags: keep the content
+
+    if (VOID_TAGS.has(name)) return `<${name}${sanitizeAttributes(node)}>`;
+    return `<${name}${sanitizeAttributes(node)}>${children}</${name}>`;
+  }).join("");
+
+  const body = serialize(document.children);
+  const css = stylesheets.map(sanitizeStylesheet).filter(Boolean).join("\n");
+
+  return [
+    css ? `<style>\n${css}\n</style>` : "",
+    `<div class="${MESSAGE_CONTAINER_CLASS}">${body}</div>`,
+  ].join("");
+}
@@ -0,0 +1,178 @@
+import { randomBytes } from "crypto";
+import { parseDocument } from "htmlparser2";
+import { isTag, isText, type ChildNode, type Element } from "domhandler";
+import type { MimeAttachment } from "./mime";
+
+/**
+ * HTML written in the composer: the plain-text alternative sent next to it,
+ * and pasted images, which become inline parts of the message.
+ */
+
+// Text, or the number of line breaks a block boundary needs; adjacent boundaries collapse
+type TextItem = string | number;
+
+const PARAGRAPH_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6"]);
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "center", "dd", "div", "dl", "dt", "figcaption", "figure",
+  "footer", "header", "hr", "main", "nav", "section", "table", "tbody", "tfoot", "thead", "tr",
+]);
+
+const SKIPPED_TAGS = new Set(["head", "script", "style", "template", "title"]);
+
+function isBlank(node: ChildNode): boolean {
+  return isText(node) && node.data.trim() === "";
+}
+
+function atLineStart(items: TextItem[]): boolean {
+  const last = items[items.length - 1];
+  return last === undefined || typeof last === "number" || last.endsWith("\n");
+}
+
+function joinItems(items: TextItem[]): string {
+  let text = "";
+  let pendingBreaks = 0;
+  for (const item of items) {
+    if (typeof item === "number") {
+      pendingBreaks = Math.max(pendingBreaks, item);
+      continue;
+    }
+    // A line break already written counts towards the boundary
+    if (text && pendingBreaks) text += "\n".repeat(text.endsWith("\n") ? pendingBreaks - 1 : pendingBreaks);
+    pendingBreaks = 0;
+    text += item;
+  }
+  return text;
+}
+
+interface RenderContext {
+  preformatted: boolean;
+  listDepth: number;
+}
+
+function renderNodes(nodes: ChildNode[], items: TextItem[], context: RenderContext, isBlock: boolean) {
+  const meaningful = nodes.filter(node => !isBlank(node));
+  const last = meaningful[meaningful.length - 1];
+
+  for (const node of nodes) {
+    if (isText(node)) {
+      if (context.preformatted) {
+        items.push(node.data);
+      } else {
+        const text = node.data.replace(/\s+/g, " ");
+        items.push(atLineStart(items) ? text.trimStart() : text);
+      }
+      continue;
+    }
+    if (!isTag(node)) continue;
+
+    // A trailing <br> in a block only holds an otherwise empty line open
+    if (isBlock && node.name === "br" && node === last) {
+      if (meaningful.length === 1) items.push("\n");
+      continue;
+    }
+
+    renderElement(node, items, context);
+  }
+}
+
+function renderElement(element: Element, items: TextItem[], context: RenderContext) {
+  const name = element.name.toLowerCase();
+  if (SKIPPED_TAGS.has(name)) return;
+
+  switch (name) {
+    case "br":
+      items.push("\n");
+      return;
+    case "img": {
+      const alt = element.attribs.alt?.trim();
+      if (alt) items.push(`[image: ${alt}]`);
+      return;
+    }
+    case "a": {
+      const inner: TextItem[] = [];
+      renderNodes(element.children, inner, context, false);
+      items.push(...inner);
+      const href = element.attribs.href ?? "";
+      const label = joinItems(inner).trim();
+      if (/^https?:/i.test(href) && label !== href) items.push(` <${href}>`);
+      return;
+    }
+    case "ul":
+    case "ol": {
+      items.push(1);
+      const listItems = element.children.filter((child): child is Element => isTag(child) && child.name === "li");
+      listItems.forEach((item, index) => {
+        const marker = name === "ol" ? `${index + 1}.` : "-";
+        items.push(`${"  ".repeat(context.listDepth)}${marker} `);
+        renderNodes(item.children, items, { ...context, listDepth: context.listDepth + 1 }, true);
+        items.push(1);
+      });
+      return;
+    }
+    case "blockquote": {
+      const inner: TextItem[] = [];
+      renderNodes(element.children, inner, context, true);
+      const quoted = joinItems(inner).trim().split("\n").map(line => (line ? `> ${line}` : ">")).join("\n");
+      items.push(1, quoted, 1);
+      return;
+    }
+    case "pre":
+      items.push(1);
+      renderNodes(element.children, items, { ...context, preformatted: true }, true);
+      items.push(1);
+      return;
+    case "td":
+    case "th":
+      renderNodes(element.children, items, context, true);
+      items.push(" ");
+      return;
+  }
+
+  const breaks = PARAGRAPH_TAGS.has(name) ? 2 : BLOCK_TAGS.has(name) ? 1 : 0;
+  if (breaks) items.push(breaks);
+  renderNodes(element.children, items, context, breaks > 0);
+  if (breaks) items.push(breaks);
+}
+
+/**
+ * Plain-text alternative for an HTML body, roughly what Gmail generates:
+ * paragraphs and lines kept, lists marked, quotes prefixed with "> " and link
+ * targets spelled out.
+ */
+export function htmlToPlainText(html: string): string {
+  const items: TextItem[] = [];
+  renderNodes(parseDocument(html).children, items, { preformatted: false, listDepth: 0 }, true);
+
+  return joinItems(items)
+    .replace(/\u00a0/g, " ")
+    .split("\n")
+    .map(line => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const DATA_IMAGE_PATTERN = /(<img\b[^>]*?\bsrc=["'])data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=\s]+)(["'])/gi;
+
+/**
+ * Moves pasted images (data: URLs) out of the HTML into inline parts, which
+ * the HTML then shows through cid: references.
+ */
+export function extractInlineImages(html: string): { html: string; images: MimeAttachment[] } {
+  const images: MimeAttachment[] = [];
+
+  const rewritten = html.replace(DATA_IMAGE_PATTERN, (_match, prefix: string, contentType: string, data: string, quote: string) => {
+    const subtype = contentType.split("/")[1]!.split("+")[0]!;
+    const contentId = `ii_${randomBytes(8).toString("hex")}`;
+    images.push({
+      filename: `image${images.length + 1}.${subtype === "jpeg" ? "jpg" : subtype}`,
+      contentType: contentType.toLowerCase(),
+      content: Buffer.from(data.replace(/\s/g, ""), "base64"),
+      contentId,
+    });
+    return `${prefix}cid:${contentId}${quote}`;
+  });
+
+  return { html: rewritten, images };
+}
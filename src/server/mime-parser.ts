@@ -0,0 +1,253 @@
+/**
+ * Decoding helpers for incoming MIME content: transfer encodings, charsets,
+ * RFC 2047 encoded words, header parameters and raw RFC 822 entities.
+ */
+
+export interface HeaderValue {
+  value: string; // Lower-cased main value, e.g. "text/plain" or "attachment"
+  params: Record<string, string>; // Lower-cased parameter names
+}
+
+export interface RawMimeEntity {
+  headers: Array<{ name: string; value: string }>;
+  body: Buffer; // Transfer encoding already removed
+  parts: RawMimeEntity[];
+}
+
+// Gmail returns body data as base64url; plain base64 is accepted too
+export function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+export function decodeQuotedPrintable(input: string): Buffer {
+  const bytes: number[] = [];
+  const text = input.replace(/=\r?\n/g, ""); // Soft line breaks
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    const hex = text.slice(i + 1, i + 3);
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(char, "utf-8"));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.toString("latin1").replace(/[^A-Za-z0-9+/=_-]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body.toString("latin1"));
+    default:
+      return body; // 7bit, 8bit and binary need no decoding
+  }
+}
+
+// Charset labels mail clients use that TextDecoder doesn't know by that name
+const CHARSET_ALIASES: Record<string, string> = {
+  "ks_c_5601-1987": "euc-kr",
+  "x-sjis": "shift_jis",
+  "x-unknown": "utf-8",
+  "unicode-1-1-utf-7": "utf-8",
+};
+
+// Node decodes windows-1252 (and ISO-8859-1, which WHATWG treats as the same) like
+// plain latin1, leaving 0x80-0x9F as control characters instead of quotes and dashes
+const WINDOWS_1252_HIGH = "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+const WINDOWS_1252_LABELS = new Set(["windows-1252", "cp1252", "iso-8859-1", "iso8859-1", "latin1", "l1", "ascii", "us-ascii", "ansi_x3.4-1968"]);
+
+/**
+ * Decodes bytes in the given charset. Unknown or missing charsets fall back to
+ * UTF-8, which is what undeclared mail overwhelmingly is.
+ */
+export function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = charset?.trim().replace(/^"|"$/g, "").toLowerCase() || "utf-8";
+
+  if (WINDOWS_1252_LABELS.has(label)) {
+    return Array.from(bytes, byte => byte >= 0x80 && byte <= 0x9f
+      ? WINDOWS_1252_HIGH[byte - 0x80]!
+      : String.fromCharCode(byte)
+    ).join("");
+  }
+
+  try {
+    return new TextDecoder(CHARSET_ALIASES[label] ?? label).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/**
+ * Decodes RFC 2047 encoded words ("=?charset?B|Q?text?="). Whitespace between
+ * adjacent encoded words is dropped, as the RFC requires.
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      // RFC 2231 allows a language suffix: charset*lang
+      const cleanCharset = charset.split("*")[0];
+      const bytes = encoding.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, cleanCharset);
+    });
+}
+
+/**
+ * Parses structured header values such as Content-Type and Content-Disposition,
+ * including quoted parameters and RFC 2231 extended / continued parameters.
+ */
+export function parseHeaderValue(header: string | undefined): HeaderValue {
+  if (!header) return { value: "", params: {} };
+
+  const [rawValue = "", ...rawParams] = splitOutsideQuotes(header, ";");
+  const params: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const rawParam of rawParams) {
+    const separator = rawParam.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = rawParam.slice(0, separator).trim().toLowerCase();
+    let value = rawParam.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+
+    // name*0*=..., name*1=..., name*=charset''value
+    const match = /^([^*]+)\*(?:(\d+)\*?)?$/.exec(key);
+    if (match) {
+      const name = match[1]!;
+      (extended[name] ??= []).push({
+        index: match[2] ? parseInt(match[2], 10) : 0,
+        value,
+        encoded: key.endsWith("*"),
+      });
+    } else {
+      params[key] = decodeEncodedWords(value);
+    }
+  }
+
+  for (const [name, segments] of Object.entries(extended)) {
+    segments.sort((a, b) => a.index - b.index);
+
+    let charset = "utf-8";
+    const bytes: Buffer[] = segments.map((segment, position) => {
+      let value = segment.value;
+      if (segment.encoded && position === 0) {
+        const charsetMatch = /^([^']*)'[^']*'(.*)$/.exec(value);
+        if (charsetMatch) {
+          charset = charsetMatch[1] || charset;
+          value = charsetMatch[2]!;
+        }
+      }
+      return segment.encoded ? percentDecode(value) : Buffer.from(value, "utf-8");
+    });
+
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value: rawValue.trim().toLowerCase(), params };
+}
+
+function percentDecode(value: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(value[i]!, "utf-8"));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === "\\" && inQuotes) {
+      current += char + (value[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      result.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  result.push(current);
+
+  return result;
+}
+
+function findHeader(headers: Array<{ name: string; value: string }>, name: string): string | undefined {
+  return headers.find(header => header.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+/**
+ * Parses a raw RFC 822 message or MIME entity, recursing into multipart bodies
+ * and removing transfer encodings along the way. Used for message/rfc822 parts
+ * whose content Gmail hands over unparsed.
+ */
+export function parseRawMimeEntity(raw: Buffer): RawMimeEntity {
+  const text = raw.toString("latin1"); // Byte-preserving, so offsets map back to the buffer
+  const headerEnd = /\r?\n\r?\n/.exec(text);
+  const headerText = headerEnd ? text.slice(0, headerEnd.index) : text;
+  const bodyStart = headerEnd ? headerEnd.index + headerEnd[0].length : text.length;
+
+  const headers = headerText
+    .replace(/\r?\n[ \t]+/g, " ") // Unfold continuation lines
+    .split(/\r?\n/)
+    .map(line => {
+      const separator = line.indexOf(":");
+      return separator > 0
+        ? {
+            name: line.slice(0, separator).trim(),
+            value: decodeCharset(Buffer.from(line.slice(separator + 1).trim(), "latin1"), "utf-8"),
+          }
+        : null;
+    })
+    .filter((header): header is { name: string; value: string } => header !== null);
+
+  const contentType = parseHeaderValue(findHeader(headers, "Content-Type"));
+  const rawBody = raw.subarray(bodyStart);
+
+  if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = rawBody.toString("latin1").split(new RegExp(`\\r?\\n?${escapeRegExp(delimiter)}`));
+
+    // The first section is the preamble; the closing delimiter starts with "--"
+    const parts = sections
+      .slice(1)
+      .filter(section => !section.startsWith("--"))
+      .map(section => parseRawMimeEntity(Buffer.from(section.replace(/^[ \t]*\r?\n/, ""), "latin1")));
+
+    return { headers, body: Buffer.alloc(0), parts };
+  }
+
+  return {
+    headers,
+    body: decodeTransferEncoding(rawBody, findHeader(headers, "Content-Transfer-Encoding")),
+    parts: [],
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
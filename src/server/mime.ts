@@ -0,0 +1,323 @@
+import { randomBytes } from "crypto";
+import { parseAddress } from "./email-address";
+
+/**
+ * RFC 5322 / MIME builder for outgoing mail. Pure functions with no I/O, so
+ * callers load attachment bytes themselves and hand them in.
+ */
+
+export interface MailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType?: string; // Guessed from the filename when omitted
+  content: Buffer;
+  contentId?: string; // Sent inline next to the HTML body, which shows it through cid:
+}
+
+export interface MimeMessageOptions {
+  from: string | MailAddress;
+  to?: (string | MailAddress)[];
+  cc?: (string | MailAddress)[];
+  bcc?: (string | MailAddress)[];
+  replyTo?: (string | MailAddress)[];
+  subject: string;
+  text?: string;
+  html?: string;
+  messageId?: string;
+  inReplyTo?: string | null;
+  references?: string[];
+  date?: Date;
+  attachments?: MimeAttachment[];
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_LENGTH = 76;
+
+const CONTENT_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  csv: "text/csv",
+  htm: "text/html",
+  html: "text/html",
+  ics: "text/calendar",
+  md: "text/markdown",
+  json: "application/json",
+  xml: "application/xml",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  rtf: "application/rtf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  eml: "message/rfc822",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  heic: "image/heic",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+};
+
+export function lookupContentType(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/**
+ * Header values can come from user input or from incoming mail (a reused
+ * subject, a filename), so CR, LF and other control characters are replaced
+ * with spaces: a line break would otherwise start a header of its own.
+ */
+function toHeaderText(value: string): string {
+  return value.replace(/[\x00-\x1f\x7f]+/g, " ");
+}
+
+/**
+ * RFC 2047 encoded words for header text. ASCII passes through (control
+ * characters aside);
+ * anything else becomes UTF-8 "B" words of at most 75 characters each, split
+ * on character boundaries and folded onto continuation lines.
+ */
+export function encodeHeaderValue(rawValue: string): string {
+  const value = toHeaderText(rawValue);
+  if (isAscii(value)) return value;
+
+  const maxBytesPerWord = 45; // 60 base64 characters plus the =?UTF-8?B??= wrapper
+  const words: string[] = [];
+  let chunk = "";
+
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, "utf-8") > maxBytesPerWord) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map(word => `=?UTF-8?B?${Buffer.from(word, "utf-8").toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+// Accepts "Name <address>" or a bare address
+function toMailAddress(value: string | MailAddress): MailAddress {
+  if (typeof value !== "string") return value;
+
+  const parsed = parseAddress(value);
+  return parsed ? { name: parsed.name ?? undefined, address: parsed.address } : { address: value.trim() };
+}
+
+export function formatAddress(value: string | MailAddress): string {
+  const mailAddress = toMailAddress(value);
+  const address = toHeaderText(mailAddress.address).replace(/\s+/g, "");
+  const name = mailAddress.name && toHeaderText(mailAddress.name).trim();
+  if (!name) return address;
+
+  if (!isAscii(name)) {
+    return `${encodeHeaderValue(name)} <${address}>`;
+  }
+
+  // Names containing RFC 5322 specials must be a quoted-string
+  const displayName = /[()<>\[\]:;@\\,."]/.test(name)
+    ? `"${name.replace(/(["\\])/g, "\\$1")}"`
+    : name;
+
+  return `${displayName} <${address}>`;
+}
+
+export function formatAddressList(values: (string | MailAddress)[]): string {
+  return values.map(formatAddress).join(`,${CRLF} `);
+}
+
+// A globally unique Message-ID on the given domain (the app's own, not the sender's mail provider)
+export function generateMessageId(domain: string): string {
+  return `<${Date.now().toString(36)}.${randomBytes(12).toString("hex")}@${domain}>`;
+}
+
+/**
+ * Quoted-printable (RFC 2045) encoding of UTF-8 text with CRLF line breaks and
+ * soft breaks keeping every line within 76 characters.
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return normalizeLineBreaks(text)
+    .split(CRLF)
+    .map(line => {
+      const bytes = Buffer.from(line, "utf-8");
+      const encoded: string[] = [];
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        const isPrintable = (byte >= 33 && byte <= 126 && byte !== 61) ||
+          ((byte === 32 || byte === 9) && !isLast); // Trailing whitespace must be encoded
+        encoded.push(isPrintable
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`);
+      });
+
+      const lines: string[] = [];
+      let current = "";
+      for (const token of encoded) {
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          lines.push(`${current}=`);
+          current = "";
+        }
+        current += token;
+      }
+      lines.push(current);
+
+      return lines.join(CRLF);
+    })
+    .join(CRLF);
+}
+
+function encodeBase64Lines(content: Buffer): string {
+  return content.toString("base64").match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, "g"))?.join(CRLF) ?? "";
+}
+
+function normalizeLineBreaks(text: string): string {
+  return text.replace(/\r\n|\r|\n/g, CRLF);
+}
+
+// Header parameter such as filename="...", using RFC 2231 for non-ASCII values
+function formatParameter(key: string, rawValue: string): string {
+  const value = toHeaderText(rawValue);
+  if (isAscii(value)) {
+    return `${key}="${value.replace(/(["\\])/g, "\\$1")}"`;
+  }
+  return `${key}*=UTF-8''${encodeURIComponent(value).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+// Message and content ids never contain whitespace, so any is dropped
+function toMessageIdText(value: string): string {
+  return toHeaderText(value).replace(/\s+/g, "");
+}
+
+function generateBoundary(): string {
+  return `----=_Part_${randomBytes(16).toString("hex")}`;
+}
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+function textPart(text: string, subtype: "plain" | "html"): MimePart {
+  // Plain ASCII with short lines can go as-is; everything else is quoted-printable
+  const canSendAsIs = isAscii(text) && normalizeLineBreaks(text).split(CRLF).every(line => line.length <= 998);
+
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${canSendAsIs ? "7bit" : "quoted-printable"}`,
+    ],
+    body: canSendAsIs ? normalizeLineBreaks(text) : encodeQuotedPrintable(text),
+  };
+}
+
+function attachmentPart(attachment: MimeAttachment): MimePart {
+  const contentType = toHeaderText(attachment.contentType ?? lookupContentType(attachment.filename)).trim();
+  const disposition = attachment.contentId ? "inline" : "attachment";
+
+  // RFC 2046 prefers identity encodings for message/rfc822; anything 7bit can't carry falls back to base64
+  const content = attachment.content.toString("latin1");
+  const sendAsIs = contentType === "message/rfc822" && isAscii(content) &&
+    normalizeLineBreaks(content).split(CRLF).every(line => line.length <= 998);
+
+  return {
+    headers: [
+      `Content-Type: ${contentType}; ${formatParameter("name", attachment.filename)}`,
+      `Content-Transfer-Encoding: ${sendAsIs ? "7bit" : "base64"}`,
+      `Content-Disposition: ${disposition}; ${formatParameter("filename", attachment.filename)}`,
+      attachment.contentId ? `Content-ID: <${toMessageIdText(attachment.contentId)}>` : null,
+    ].filter((header): header is string => header !== null),
+    body: sendAsIs ? normalizeLineBreaks(content) : encodeBase64Lines(attachment.content),
+  };
+}
+
+function multipart(subtype: "mixed" | "alternative" | "related", parts: MimePart[]): MimePart {
+  const boundary = generateBoundary();
+  const body = parts
+    .map(part => `--${boundary}${CRLF}${part.headers.join(CRLF)}${CRLF}${CRLF}${part.body}`)
+    .join(CRLF);
+
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}${CRLF}--${boundary}--`,
+  };
+}
+
+/**
+ * Builds a complete RFC 5322 message. Text and HTML bodies become a
+ * multipart/alternative, wrapped in multipart/related with any inline parts
+ * the HTML references and then in multipart/mixed when there are attachments.
+ */
+export function buildMimeMessage(options: MimeMessageOptions): string {
+  const bodyParts: MimePart[] = [];
+  if (options.text !== undefined || options.html === undefined) {
+    bodyParts.push(textPart(options.text ?? "", "plain"));
+  }
+  if (options.html !== undefined) {
+    bodyParts.push(textPart(options.html, "html"));
+  }
+
+  // Inline parts only make sense next to an HTML body; without one they're plain attachments
+  const attachments = options.attachments ?? [];
+  const inlineParts = options.html !== undefined ? attachments.filter(attachment => attachment.contentId) : [];
+  const attachedParts = attachments
+    .filter(attachment => !inlineParts.includes(attachment))
+    .map(attachment => ({ ...attachment, contentId: undefined }));
+
+  let root = bodyParts.length > 1 ? multipart("alternative", bodyParts) : bodyParts[0]!;
+  if (inlineParts.length > 0) {
+    root = multipart("related", [root, ...inlineParts.map(attachmentPart)]);
+  }
+  if (attachedParts.length > 0) {
+    root = multipart("mixed", [root, ...attachedParts.map(attachmentPart)]);
+  }
+
+  const headers = [
+    `From: ${formatAddress(options.from)}`,
+    options.to?.length ? `To: ${formatAddressList(options.to)}` : null,
+    options.cc?.length ? `Cc: ${formatAddressList(options.cc)}` : null,
+    options.bcc?.length ? `Bcc: ${formatAddressList(options.bcc)}` : null,
+    options.replyTo?.length ? `Reply-To: ${formatAddressList(options.replyTo)}` : null,
+    `Subject: ${encodeHeaderValue(options.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    options.messageId ? `Message-ID: ${toMessageIdText(options.messageId)}` : null,
+    options.inReplyTo ? `In-Reply-To: ${toMessageIdText(options.inReplyTo)}` : null,
+    options.references?.length ? `References: ${options.references.map(toMessageIdText).join(`${CRLF} `)}` : null,
+    `MIME-Version: 1.0`,
+    ...root.headers,
+  ].filter((header): header is string => header !== null);
+
+  return `${headers.join(CRLF)}${CRLF}${CRLF}${root.body}${CRLF}`;
+}
+
+// The Gmail API takes raw messages as base64url without padding
+export function encodeBase64Url(raw: string): string {
+  return Buffer.from(raw, "utf-8")
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
@@ -0,0 +1,303 @@
+import { lookup, type LookupAddress } from "dns";
+import { request as httpRequest, type IncomingMessage } from "http";
+import { request as httpsRequest } from "https";
+import { isIP, type LookupFunction } from "net";
+import { parseDocument } from "htmlparser2";
+import render from "dom-serializer";
+import { isTag, isText, type ChildNode, type Element } from "domhandler";
+
+/**
+ * Image handling for sanitized message bodies: remote images are blocked until
+ * the user opts in, shown ones are routed through our image proxy, tracking
+ * pixels are removed either way, and cid: references to inline parts point at
+ * their stored copies.
+ */
+
+export const IMAGE_PROXY_PATH = "/api/image-proxy";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Open-tracking endpoints of common mail and sales tools
+const TRACKER_URL_PATTERNS = [
+  /list-manage\.com\/track\/open/i,
+  /mandrillapp\.com\/track\/open/i,
+  /\.ct\.sendgrid\.net\/wf\/open/i,
+  /sendgrid\.net\/wf\/open/i,
+  /mailtrack\.io\/trace/i,
+  /mltrk\.io/i,
+  /t\.sidekickopen\d*\.com/i,
+  /track\.hubspot\.com/i,
+  /t\.hubspotemail\.net/i,
+  /hubspotlinks\.com\/.*\/open/i,
+  /mailfoogae\.appspot\.com/i,
+  /app\.yesware\.com\/t/i,
+  /t\.yesware\.com/i,
+  /bl-1\.com/i,
+  /getnotify\.com/i,
+  /track\.mixmax\.com/i,
+  /r\.superhuman\.com/i,
+  /pixel\.(mailchimp|mailgun|sparkpost)/i,
+  /\/(open|track|pixel)\.(gif|png|php)(\?|$)/i,
+  /\/o\/[a-z0-9_-]{20,}$/i, // Mailgun / Postmark style open ids
+];
+
+export interface RemoteImageResult {
+  html: string;
+  blockedImages: number; // Remote images held back until the user chooses to show them
+  trackersRemoved: number;
+}
+
+function isRemoteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url.trim());
+}
+
+export function buildImageProxyUrl(url: string): string {
+  return `${IMAGE_PROXY_PATH}?url=${encodeURIComponent(url.trim())}`;
+}
+
+// "cid:part1.abc@host" -> "part1.abc@host"; some clients percent-encode the id
+function getContentId(url: string): string | null {
+  const match = /^cid:(.+)$/i.exec(url.trim());
+  if (!match) return null;
+
+  try {
+    return decodeURIComponent(match[1]!).replace(/^<|>$/g, "");
+  } catch {
+    return match[1]!;
+  }
+}
+
+function parsePixels(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(px)?\s*$/i.exec(value);
+  return match ? parseFloat(match[1]!) : null;
+}
+
+function getStyleValue(style: string | undefined, property: string): string | undefined {
+  const match = new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "i").exec(style ?? "");
+  return match?.[1]?.trim();
+}
+
+/**
+ * Tracking pixels are tiny or hidden remote images, or images served from a
+ * known open-tracking endpoint.
+ */
+export function isTrackingPixel(element: Element): boolean {
+  const src = element.attribs.src ?? "";
+  if (!isRemoteUrl(src)) return false;
+  if (TRACKER_URL_PATTERNS.some(pattern => pattern.test(src))) return true;
+
+  const style = element.attribs.style;
+  const width = parsePixels(element.attribs.width) ?? parsePixels(getStyleValue(style, "width"));
+  const height = parsePixels(element.attribs.height) ?? parsePixels(getStyleValue(style, "height"));
+  if ((width !== null && width <= 1) || (height !== null && height <= 1)) return true;
+
+  const display = getStyleValue(style, "display");
+  const visibility = getStyleValue(style, "visibility");
+  return display === "none" || visibility === "hidden";
+}
+
+export function processRemoteImages(
+  html: string,
+  options: {
+    showImages: boolean;
+    inlineImageUrls?: Record<string, string>; // Content-ID -> URL of the stored part
+  }
+): RemoteImageResult {
+  const document = parseDocument(html);
+  let blockedImages = 0;
+  let trackersRemoved = 0;
+
+  // Inline parts are the sender's own content, so they show regardless of showImages
+  const resolveInlineImage = (url: string) => {
+    const contentId = getContentId(url);
+    return contentId ? options.inlineImageUrls?.[contentId] ?? null : null;
+  };
+
+  // Remote url(...) in CSS either goes through the proxy or is dropped
+  const rewriteCss = (css: string) =>
+    css.replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote: string, url: string) => {
+      const inlineUrl = resolveInlineImage(url);
+      if (inlineUrl) return `url("${inlineUrl}")`;
+      if (!isRemoteUrl(url)) return match;
+      if (!options.showImages) {
+        blockedImages++;
+        return "none";
+      }
+      return `url("${buildImageProxyUrl(url)}")`;
+    });
+
+  const visit = (nodes: ChildNode[]) => {
+    for (const node of [...nodes]) {
+      if (!isTag(node)) continue;
+
+      if (node.name === "style") {
+        for (const child of node.children) {
+          if (isText(child)) child.data = rewriteCss(child.data);
+        }
+        continue;
+      }
+
+      if (node.attribs.style) node.attribs.style = rewriteCss(node.attribs.style);
+
+      for (const attribute of ["src", "background"]) {
+        const url = node.attribs[attribute];
+        if (!url) continue;
+
+        const inlineUrl = resolveInlineImage(url);
+        if (inlineUrl) {
+          node.attribs[attribute] = inlineUrl;
+          continue;
+        }
+        if (!isRemoteUrl(url)) continue;
+
+        if (node.name === "img" && attribute === "src" && isTrackingPixel(node)) {
+          nodes.splice(nodes.indexOf(node), 1);
+          trackersRemoved++;
+          break;
+        }
+
+        if (options.showImages) {
+          node.attribs[attribute] = buildImageProxyUrl(url);
+        } else {
+          delete node.attribs[attribute];
+          blockedImages++;
+        }
+      }
+
+      visit(node.children);
+    }
+  };
+
+  visit(document.children);
+
+  return {
+    html: render(document, { encodeEntities: "utf8" }),
+    blockedImages,
+    trackersRemoved,
+  };
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]!);
+
+  if (isIP(address) === 4) {
+    const [a = 0, b = 0] = address.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  const lower = address.toLowerCase();
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/**
+ * Resolves hostnames for the proxy's own connections and refuses any that point
+ * into our network. Checking the address that is actually connected to, rather
+ * than resolving once up front, leaves no room for DNS rebinding.
+ */
+const publicLookup = ((hostname, options, callback) => {
+  lookup(hostname, { family: options.family, hints: options.hints, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "", 0);
+
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(`Refusing to fetch ${hostname}`), "", 0);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+}) as LookupFunction;
+
+// Connections to literal IPs skip the lookup, so those are checked here
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(`Refusing to fetch ${url.hostname}`);
+  }
+}
+
+function requestImage(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? httpsRequest : httpRequest)(url, {
+      lookup: publicLookup,
+      signal,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; MailImageProxy/1.0)",
+        Accept: "image/*",
+      },
+    }, resolve);
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+async function readImageBody(response: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new Error("Image too large");
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetches a remote image on the user's behalf. No cookies, referrer or client
+ * headers are forwarded, every hop is checked against private addresses, and
+ * only images within the size limit are returned.
+ */
+export async function fetchRemoteImage(rawUrl: string): Promise<{ body: Buffer; contentType: string }> {
+  let url = new URL(rawUrl);
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    assertPublicUrl(url);
+
+    const response = await requestImage(url, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Upstream responded ${status}`);
+    }
+
+    const contentType = response.headers["content-type"]?.split(";")[0]?.trim().toLowerCase() ?? "";
+    if (!contentType.startsWith("image/")) {
+      response.resume();
+      throw new Error(`Not an image: ${contentType || "unknown type"}`);
+    }
+
+    if (Number(response.headers["content-length"] ?? 0) > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new Error("Image too large");
+    }
+
+    return { body: await readImageBody(response), contentType };
+  }
+
+  throw new Error("Too many redirects");
+}
@@ -0,0 +1,108 @@
+import { parseAddress } from "./email-address";
+import { escapeHtml, textToHtml } from "~/lib/html";
+
+/**
+ * Recipients, subject, threading headers and the quoted parent for replies,
+ * following Gmail's rules.
+ */
+
+export type ReplyMode = "reply" | "replyAll";
+
+export interface ReplyParent {
+  from: string; // "Name <address>" display form
+  to: string[]; // Lower-cased bare addresses, as stored on Message
+  cc: string[];
+  replyTo: string[];
+}
+
+export interface ReplyRecipients {
+  to: string[];
+  cc: string[];
+}
+
+/**
+ * Replies go to the Reply-To addresses when the parent has them, otherwise to
+ * its sender. Reply all also keeps the parent's To recipients in To and its Cc
+ * recipients in Cc. Replying to a message we sent ourselves continues with its
+ * original recipients instead. Our own addresses and aliases are dropped, and
+ * nobody appears twice.
+ */
+export function computeReplyRecipients(parent: ReplyParent, mode: ReplyMode, ownAddresses: string[]): ReplyRecipients {
+  const own = new Set(ownAddresses.map(address => address.toLowerCase()));
+  const sender = parseAddress(parent.from)?.address ?? null;
+  const isOwnMessage = sender !== null && own.has(sender);
+
+  let toCandidates: string[];
+  if (isOwnMessage) {
+    toCandidates = parent.to.length > 0 ? parent.to : [sender];
+  } else {
+    const replyTargets = parent.replyTo.length > 0 ? parent.replyTo : sender ? [sender] : [];
+    toCandidates = mode === "replyAll" ? [...replyTargets, ...parent.to] : replyTargets;
+  }
+  const ccCandidates = mode === "replyAll" ? parent.cc : [];
+
+  const seen = new Set<string>();
+  const unique = (addresses: string[], dropOwn: boolean) => addresses
+    .map(address => address.toLowerCase())
+    .filter(address => {
+      if (seen.has(address) || (dropOwn && own.has(address))) return false;
+      seen.add(address);
+      return true;
+    });
+
+  let to = unique(toCandidates, true);
+  // A note to ourselves stays addressed to us
+  if (to.length === 0) to = unique(toCandidates, false);
+
+  return { to, cc: unique(ccCandidates, true) };
+}
+
+export const QUOTE_STYLE = "margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex";
+
+/**
+ * The parent quoted below a reply under an "On <date>, <sender> wrote:" line.
+ * The HTML quotes the parent's sanitized body, or its text when it has none.
+ */
+export function buildReplyQuote(
+  parent: { from: string; date: Date },
+  parentHtml: string | null,
+  parentText: string
+): { html: string; text: string } {
+  const attribution = `On ${parent.date.toUTCString()}, ${parent.from} wrote:`;
+  const quotedText = parentText.split(/\r?\n/).map(line => (line ? `> ${line}` : ">")).join("\n");
+
+  return {
+    html: [
+      `<div class="gmail_quote">`,
+      `<div dir="ltr" class="gmail_attr">${escapeHtml(attribution)}<br></div>`,
+      `<blockquote class="gmail_quote" style="${QUOTE_STYLE}">`,
+      parentHtml ?? `<div dir="ltr">${textToHtml(parentText)}</div>`,
+      `</blockquote>`,
+      `</div>`,
+    ].join(""),
+    text: `${attribution}\n\n${quotedText}`,
+  };
+}
+
+export function buildReplySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`;
+}
+
+/**
+ * In-Reply-To and References for a reply. Without the parent's Message-ID the
+ * reply carries the parent's References only, rather than an id other clients
+ * can't resolve.
+ */
+export function buildReplyThreading(
+  parentMessageId: string | null,
+  parentReferences: string[]
+): { inReplyTo: string | null; references: string[] } {
+  if (!parentMessageId) {
+    return { inReplyTo: null, references: parentReferences };
+  }
+
+  return {
+    inReplyTo: parentMessageId,
+    references: [...parentReferences.filter(id => id !== parentMessageId), parentMessageId],
+  };
+}
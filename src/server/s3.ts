@@ -3,6 +3,7 @@ import {
   PutObjectCommand, 
   GetObjectCommand, 
   DeleteObjectCommand,
+  HeadObjectCommand,
   type PutObjectCommandInput,
   type GetObjectCommandInput,
 } from "@aws-sdk/client-s3";
@@ -20,6 +21,9 @@ export const s3Client = new S3Client({
 export const S3_PATHS = {
   MESSAGE_HTML: (userId: string, messageId: string) => 
     `users/${userId}/messages/${messageId}/content.html`,
+  // Sanitized copy cached next to the raw body, per sanitizer version
+  MESSAGE_SANITIZED_HTML: (htmlS3Key: string, version: number) =>
+    htmlS3Key.replace(/\.html$/, `.sanitized.v${version}.html`),
   ATTACHMENT: (userId: string, messageId: string, attachmentId: string, filename: string) => 
     `users/${userId}/messages/${messageId}/attachments/${attachmentId}/${filename}`,
   DRAFT_ATTACHMENT: (userId: string, draftId: string, filename: string) =>
@@ -81,6 +85,24 @@ export async function getFromS3AsBuffer(key: string): Promise<Buffer | null> {
   }
 }
 
+export async function getS3ObjectInfo(key: string): Promise<{ size: number; contentType: string } | null> {
+  try {
+    const command = new HeadObjectCommand({
+      Bucket: env.S3_BUCKET_NAME,
+      Key: key,
+    });
+    const response = await s3Client.send(command);
+
+    return {
+      size: response.ContentLength ?? 0,
+      contentType: response.ContentType ?? "application/octet-stream",
+    };
+  } catch (error) {
+    console.error("Error reading S3 object info:", error);
+    return null;
+  }
+}
+
 export async function deleteFromS3(key: string): Promise<void> {
   const params = {
     Bucket: env.S3_BUCKET_NAME,
@@ -0,0 +1,366 @@
+import { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { parseSearchDate, parseSearchQuery, resolveRelativeDate, type SearchNode } from "~/lib/search-query";
+
+/**
+ * Compiles parsed search queries (see ~/lib/search-query) into a SQL predicate
+ * on threads, which the thread list runs as one query. A thread matches when
+ * any of its messages does.
+ *
+ * Free text goes through Postgres full-text search on Message.searchVector,
+ * which the sync keeps up to date: subject (weight A), sender (B) and body
+ * text (C). Text extracted from attachments has its own vector on Attachment.
+ * Results are ranked by ts_rank plus recency, and ts_headline provides the
+ * highlighted snippets shown in the thread list.
+ */
+
+// Relevance counts most; recency breaks ties between similarly relevant threads
+const RECENCY_WEIGHT = 0.3;
+// A match inside an attachment counts for less than one in the message itself
+const ATTACHMENT_RANK_WEIGHT = 0.6;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// tsvector values are capped at 1MB, so very long bodies and attachment texts are only indexed in part
+const MAX_INDEXED_BODY_LENGTH = 200_000;
+
+// Private-use characters mark highlights in ts_headline output; they can't clash with mail text
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchHighlight {
+  snippet: HighlightSegment[] | null;
+  // Set when the terms also matched inside one of the thread's attachments
+  attachment: { id: string; filename: string; snippet: HighlightSegment[] } | null;
+}
+
+interface SearchContext {
+  userId: string;
+  userEmail: string | null; // Resolves from:me / to:me
+  now: Date;
+  timezoneOffset?: number; // The user's, so before:/after: dates start at their midnight
+}
+
+export interface ThreadSearch {
+  where: Prisma.Sql; // Predicate on the thread alias t, limited to the user's threads
+  rankedTerms: string[]; // Free text to rank by; empty when the query only uses operators
+}
+
+const SEARCH_VECTOR_SQL = Prisma.sql`
+  setweight(to_tsvector('english', coalesce(m."subject", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(m."from", '')), 'B') ||
+  setweight(to_tsvector('english', left(coalesce(m."textContent", ''), ${MAX_INDEXED_BODY_LENGTH}::int)), 'C')
+`;
+
+/**
+ * Recomputes the search vector of the given messages. Called after their
+ * content changes.
+ */
+export async function updateMessageSearchVectors(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return;
+
+  await db.$executeRaw`
+    UPDATE "Message" m SET "searchVector" = ${SEARCH_VECTOR_SQL}
+    WHERE m."id" IN (${Prisma.join(messageIds)})
+  `;
+}
+
+/**
+ * Indexes a user's messages that have no search vector yet: rows written by
+ * bulk inserts, and messages synced before search was indexed.
+ */
+export async function indexUnindexedMessages(userId: string): Promise<number> {
+  return db.$executeRaw`
+    UPDATE "Message" m SET "searchVector" = ${SEARCH_VECTOR_SQL}
+    FROM "Thread" t
+    WHERE t."id" = m."threadId" AND t."userId" = ${userId} AND m."searchVector" IS NULL
+  `;
+}
+
+/**
+ * Stores the text extracted from an attachment, or records that there was
+ * none, and indexes it for search.
+ */
+export async function indexAttachmentText(attachmentId: string, text: string | null): Promise<void> {
+  await db.$executeRaw`
+    UPDATE "Attachment" SET
+      "textContent" = ${text},
+      "textExtractedAt" = now(),
+      "searchVector" = CASE WHEN ${text}::text IS NULL THEN NULL
+        ELSE to_tsvector('english', left(${text}::text, ${MAX_INDEXED_BODY_LENGTH}::int)) END
+    WHERE "id" = ${attachmentId}
+  `;
+}
+
+// Phrases must match in order; single words match any inflection ("meeting" finds "meetings")
+function toTsQuery(text: string): Prisma.Sql {
+  return /\s/.test(text.trim())
+    ? Prisma.sql`phraseto_tsquery('english', ${text})`
+    : Prisma.sql`plainto_tsquery('english', ${text})`;
+}
+
+// Free-text terms that count towards ranking: everything not under a negation
+function getRankedTerms(node: SearchNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case "text":
+      return [node.value];
+    case "operator":
+    case "not":
+      return [];
+    case "and":
+    case "or":
+      return node.children.flatMap(getRankedTerms);
+  }
+}
+
+function combineTsQueries(terms: string[]): Prisma.Sql {
+  return Prisma.join(terms.map(toTsQuery), " || ");
+}
+
+function messageExists(condition: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`EXISTS (SELECT 1 FROM "Message" m WHERE m."threadId" = t."id" AND ${condition})`;
+}
+
+function attachmentExists(condition: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM "Attachment" a JOIN "Message" m ON m."id" = a."messageId"
+    WHERE m."threadId" = t."id" AND ${condition}
+  )`;
+}
+
+// Case-insensitive substring match, with LIKE wildcards in the value taken literally
+function contains(column: Prisma.Sql, value: string): Prisma.Sql {
+  return Prisma.sql`${column} ILIKE ${`%${value.replace(/[\\%_]/g, "\\$&")}%`}`;
+}
+
+// Recipients are stored as lower-cased bare addresses, so they match exactly
+function recipientAddress(value: string, context: SearchContext): string {
+  const address = value.trim().toLowerCase();
+  return address === "me" && context.userEmail ? context.userEmail.toLowerCase() : address;
+}
+
+function compileNode(node: SearchNode, context: SearchContext): Prisma.Sql {
+  switch (node.type) {
+    case "and":
+      return Prisma.sql`(${Prisma.join(node.children.map(child => compileNode(child, context)), " AND ")})`;
+    case "or":
+      return Prisma.sql`(${Prisma.join(node.children.map(child => compileNode(child, context)), " OR ")})`;
+    case "not":
+      return Prisma.sql`NOT ${compileNode(node.child, context)}`;
+    case "text": {
+      const query = toTsQuery(node.value);
+      return Prisma.sql`(${messageExists(Prisma.sql`m."searchVector" @@ ${query}`)} OR ${attachmentExists(Prisma.sql`a."searchVector" @@ ${query}`)})`;
+    }
+  }
+
+  const value = node.value;
+  switch (node.operator) {
+    case "from": {
+      const from = value.toLowerCase() === "me" && context.userEmail ? context.userEmail : value;
+      return messageExists(contains(Prisma.sql`m."from"`, from));
+    }
+    case "to": {
+      // Like the advanced search form, to: covers every recipient field
+      const address = recipientAddress(value, context);
+      return messageExists(Prisma.sql`(${address} = ANY(m."to") OR ${address} = ANY(m."cc") OR ${address} = ANY(m."bcc"))`);
+    }
+    case "cc":
+      return messageExists(Prisma.sql`${recipientAddress(value, context)} = ANY(m."cc")`);
+    case "subject":
+      return contains(Prisma.sql`t."subject"`, value);
+    case "label":
+      // Gmail writes spaces in label names as hyphens; system labels go by their id
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM "LabelThread" lt JOIN "Label" l ON l."id" = lt."labelId"
+        WHERE lt."threadId" = t."id" AND (
+          lower(l."name") = lower(${value}) OR
+          lower(l."name") = lower(${value.replace(/-/g, " ")}) OR
+          l."gmailLabelId" = ${value.toUpperCase()}
+        )
+      )`;
+    case "filename":
+      return attachmentExists(Prisma.sql`NOT a."inline" AND ${contains(Prisma.sql`a."filename"`, value)}`);
+    case "has":
+      return attachmentExists(Prisma.sql`NOT a."inline"`);
+    case "is":
+      switch (value.toLowerCase()) {
+        case "unread":
+          return Prisma.sql`t."unread"`;
+        case "read":
+          return Prisma.sql`NOT t."unread"`;
+        case "starred":
+          return Prisma.sql`t."starred"`;
+        default:
+          return Prisma.sql`t."important"`;
+      }
+    case "before":
+      return messageExists(Prisma.sql`m."date" < ${parseSearchDate(value, context.timezoneOffset)!}`);
+    case "after":
+      return messageExists(Prisma.sql`m."date" >= ${parseSearchDate(value, context.timezoneOffset)!}`);
+    case "older_than":
+      return messageExists(Prisma.sql`m."date" < ${resolveRelativeDate(value, context.now)!}`);
+    case "newer_than":
+      return messageExists(Prisma.sql`m."date" >= ${resolveRelativeDate(value, context.now)!}`);
+  }
+}
+
+/**
+ * Compiles a search query for the given user's threads; null when the query
+ * has no terms.
+ */
+export function buildThreadSearch(
+  query: string,
+  options: { userId: string; userEmail?: string | null; now?: Date; timezoneOffset?: number }
+): ThreadSearch | null {
+  const root = parseSearchQuery(query);
+  if (!root) return null;
+
+  // The parser only produces operator terms with valid values, so the date lookups can't be empty
+  const predicate = compileNode(root, {
+    userId: options.userId,
+    userEmail: options.userEmail ?? null,
+    now: options.now ?? new Date(),
+    timezoneOffset: options.timezoneOffset,
+  });
+
+  return {
+    where: Prisma.sql`t."userId" = ${options.userId} AND ${predicate}`,
+    rankedTerms: getRankedTerms(root),
+  };
+}
+
+/**
+ * Ids of the threads matching a search within `scope` (another predicate on
+ * t, such as the current view). Free-text searches are ordered by relevance:
+ * the best ts_rank among a thread's messages and attachments, plus a boost
+ * that halves every RECENCY_HALF_LIFE_DAYS. Other searches go newest first.
+ */
+export async function findThreadIds(
+  search: ThreadSearch,
+  options: { scope?: Prisma.Sql; offset?: number; limit: number }
+): Promise<string[]> {
+  const scope = options.scope ?? Prisma.sql`true`;
+
+  if (search.rankedTerms.length === 0) {
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT t."id" FROM "Thread" t
+      WHERE ${search.where} AND ${scope}
+      ORDER BY t."lastMessageDate" DESC, t."id"
+      LIMIT ${options.limit} OFFSET ${options.offset ?? 0}
+    `;
+    return rows.map(row => row.id);
+  }
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    WITH q AS (SELECT ${combineTsQueries(search.rankedTerms)} AS query)
+    SELECT t."id"
+    FROM "Thread" t
+    CROSS JOIN q
+    LEFT JOIN LATERAL (
+      SELECT max(ts_rank(m."searchVector", q.query, 32)) AS rank
+      FROM "Message" m WHERE m."threadId" = t."id"
+    ) message_rank ON true
+    LEFT JOIN LATERAL (
+      SELECT max(ts_rank(a."searchVector", q.query, 32)) AS rank
+      FROM "Attachment" a JOIN "Message" m ON m."id" = a."messageId"
+      WHERE m."threadId" = t."id" AND a."searchVector" IS NOT NULL
+    ) attachment_rank ON true
+    WHERE ${search.where} AND ${scope}
+    ORDER BY
+      greatest(coalesce(message_rank.rank, 0), coalesce(attachment_rank.rank, 0) * ${ATTACHMENT_RANK_WEIGHT})
+        + ${RECENCY_WEIGHT} * power(0.5, extract(epoch FROM (now() - t."lastMessageDate")) / 86400 / ${RECENCY_HALF_LIFE_DAYS})
+      DESC,
+      t."lastMessageDate" DESC,
+      t."id"
+    LIMIT ${options.limit} OFFSET ${options.offset ?? 0}
+  `;
+  return rows.map(row => row.id);
+}
+
+export async function countThreads(search: ThreadSearch, scope: Prisma.Sql = Prisma.sql`true`): Promise<number> {
+  const [row] = await db.$queryRaw<Array<{ count: bigint }>>`
+    SELECT count(*) AS count FROM "Thread" t WHERE ${search.where} AND ${scope}
+  `;
+  return Number(row?.count ?? 0);
+}
+
+function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const [index, part] of headline.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`)).entries()) {
+    if (part) segments.push({ text: part, highlighted: index % 2 === 1 });
+  }
+  return segments;
+}
+
+function toSnippet(headline: string | null): HighlightSegment[] | null {
+  return headline ? toHighlightSegments(headline.replace(/\s+/g, " ").trim()) : null;
+}
+
+/**
+ * Snippets of the best matching message in each thread with the matched terms
+ * marked, keyed by thread id. Threads where only the subject or sender matched
+ * fall back to the start of the body. When an attachment matched too, the
+ * best matching one is named with a snippet of its text.
+ */
+export async function getSearchHighlights(
+  threadIds: string[],
+  terms: string[]
+): Promise<Map<string, SearchHighlight>> {
+  const highlights = new Map<string, SearchHighlight>();
+  if (threadIds.length === 0 || terms.length === 0) return highlights;
+
+  const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+  // The best-ranked message and attachment of each thread are picked first, so
+  // ts_headline only re-parses one document per thread
+  const [messageRows, attachmentRows] = await Promise.all([
+    db.$queryRaw<Array<{ threadId: string; headline: string | null }>>`
+      WITH q AS (SELECT ${combineTsQueries(terms)} AS query),
+      best AS (
+        SELECT DISTINCT ON (m."threadId") m."threadId", m."id"
+        FROM "Message" m, q
+        WHERE m."threadId" IN (${Prisma.join(threadIds)})
+        ORDER BY m."threadId", ts_rank(m."searchVector", q.query) DESC NULLS LAST, m."date" DESC
+      )
+      SELECT
+        best."threadId",
+        ts_headline('english', left(coalesce(m."textContent", m."snippet"), ${MAX_INDEXED_BODY_LENGTH}::int), q.query, ${options}) AS headline
+      FROM best
+      JOIN "Message" m ON m."id" = best."id",
+      q
+    `,
+    db.$queryRaw<Array<{ threadId: string; id: string; filename: string; headline: string | null }>>`
+      WITH q AS (SELECT ${combineTsQueries(terms)} AS query),
+      best AS (
+        SELECT DISTINCT ON (m."threadId") m."threadId", a."id"
+        FROM "Attachment" a
+        JOIN "Message" m ON m."id" = a."messageId",
+        q
+        WHERE m."threadId" IN (${Prisma.join(threadIds)}) AND a."searchVector" @@ q.query
+        ORDER BY m."threadId", ts_rank(a."searchVector", q.query) DESC
+      )
+      SELECT
+        best."threadId",
+        a."id",
+        a."filename",
+        ts_headline('english', left(a."textContent", ${MAX_INDEXED_BODY_LENGTH}::int), q.query, ${options}) AS headline
+      FROM best
+      JOIN "Attachment" a ON a."id" = best."id",
+      q
+    `,
+  ]);
+
+  for (const row of messageRows) {
+    highlights.set(row.threadId, { snippet: toSnippet(row.headline), attachment: null });
+  }
+  for (const row of attachmentRows) {
+    const highlight = highlights.get(row.threadId) ?? { snippet: null, attachment: null };
+    highlight.attachment = { id: row.id, filename: row.filename, snippet: toSnippet(row.headline) ?? [] };
+    highlights.set(row.threadId, highlight);
+  }
+  return highlights;
+}
@@ -0,0 +1,557 @@
+import { type gmail_v1 } from "googleapis";
+import { db } from "../db";
+import { type Label } from "@prisma/client";
+import { getGmailClient, getThreadLabelState, getUserRefreshToken, isNotFoundError, type GmailLabelColor } from "../gmail";
+import { deleteFromS3, S3_PATHS } from "../s3";
+import { SANITIZER_VERSION } from "../html-sanitizer";
+
+interface MessageLabelState {
+  id: string;
+  gmailMessageId: string;
+  date: Date;
+  labelIds: string[];
+}
+
+interface ThreadLabelState {
+  messages: MessageLabelState[];
+  unread: boolean;
+  starred: boolean;
+  important: boolean;
+  labelIds: string[]; // Database Label ids linked through LabelThread
+}
+
+export interface LabelChanges {
+  add?: string[];
+  remove?: string[];
+}
+
+export interface BatchUpdateResult {
+  updatedThreadIds: string[];
+  failedThreadIds: string[];
+}
+
+// users.messages.batchModify takes at most this many message ids per call
+const BATCH_MODIFY_MAX_MESSAGES = 1000;
+
+const threadLabelStateSelect = {
+  id: true,
+  unread: true,
+  starred: true,
+  important: true,
+  messages: { select: { id: true, gmailMessageId: true, date: true, labelIds: true } },
+  labelThreads: { select: { labelId: true } },
+} as const;
+
+/**
+ * Write-back of user actions to Gmail. Local rows are updated first so the UI
+ * reflects the change immediately, and restored if Gmail rejects it.
+ */
+export class GmailMailboxService {
+  private gmail: gmail_v1.Gmail;
+  private userId: string;
+
+  constructor(gmail: gmail_v1.Gmail, userId: string) {
+    this.gmail = gmail;
+    this.userId = userId;
+  }
+
+  static async create(userId: string): Promise<GmailMailboxService | null> {
+    const refreshToken = await getUserRefreshToken(userId);
+    if (!refreshToken) return null;
+
+    const gmail = getGmailClient(refreshToken);
+    return new GmailMailboxService(gmail, userId);
+  }
+
+  /**
+   * Adds and removes Gmail label ids (e.g. "UNREAD", "STARRED") on every message
+   * of a thread, mirroring `users.threads.modify`.
+   */
+  async modifyThreadLabels(threadId: string, changes: LabelChanges): Promise<void> {
+    await this.applyThreadLabelChanges(threadId, changes, async (gmailThreadId) => {
+      await this.gmail.users.threads.modify({
+        userId: "me",
+        id: gmailThreadId,
+        requestBody: {
+          addLabelIds: changes.add ?? [],
+          removeLabelIds: changes.remove ?? [],
+        },
+      });
+    });
+  }
+
+  async archive(threadId: string): Promise<void> {
+    await this.modifyThreadLabels(threadId, { remove: ["INBOX"] });
+  }
+
+  async trash(threadId: string): Promise<void> {
+    await this.applyThreadLabelChanges(threadId, { add: ["TRASH"], remove: ["INBOX"] }, async (gmailThreadId) => {
+      await this.gmail.users.threads.trash({ userId: "me", id: gmailThreadId });
+    });
+  }
+
+  /**
+   * Restores a thread from the trash. Gmail decides which messages return to the
+   * inbox; locally we assume all of them do until the next sync corrects it.
+   */
+  async untrash(threadId: string): Promise<void> {
+    await this.applyThreadLabelChanges(threadId, { add: ["INBOX"], remove: ["TRASH"] }, async (gmailThreadId) => {
+      await this.gmail.users.threads.untrash({ userId: "me", id: gmailThreadId });
+    });
+  }
+
+  /**
+   * Deletes a thread from Gmail for good, then removes the local rows (messages
+   * and attachments cascade) and the S3 objects they pointed to.
+   */
+  async deletePermanently(threadId: string): Promise<void> {
+    const thread = await db.thread.findFirstOrThrow({
+      where: { id: threadId, userId: this.userId },
+      select: {
+        gmailThreadId: true,
+        messages: {
+          select: {
+            htmlS3Key: true,
+            attachments: { select: { s3Key: true } },
+          },
+        },
+      },
+    });
+
+    try {
+      await this.gmail.users.threads.delete({ userId: "me", id: thread.gmailThreadId });
+    } catch (error) {
+      // Already gone in Gmail, so just clean up our copy
+      if (!isNotFoundError(error)) throw error;
+    }
+
+    await db.thread.delete({ where: { id: threadId } });
+
+    const s3Keys = thread.messages.flatMap(message => [
+      ...(message.htmlS3Key
+        ? [message.htmlS3Key, S3_PATHS.MESSAGE_SANITIZED_HTML(message.htmlS3Key, SANITIZER_VERSION)]
+        : []),
+      ...message.attachments.map(attachment => attachment.s3Key),
+    ]);
+
+    await Promise.all(s3Keys.map(key =>
+      deleteFromS3(key).catch(error => {
+        console.error(`S3 delete failed for ${key}:`, error);
+      })
+    ));
+  }
+
+  /**
+   * Stars or unstars a thread the way Gmail does: starring marks the latest
+   * message (or the given one), unstarring clears every message unless a single
+   * message is given. The thread counts as starred while any message is.
+   */
+  async setStarred(threadId: string, starred: boolean, messageId?: string): Promise<void> {
+    if (!starred && !messageId) {
+      return this.modifyThreadLabels(threadId, { remove: ["STARRED"] });
+    }
+
+    const changes: LabelChanges = starred ? { add: ["STARRED"] } : { remove: ["STARRED"] };
+    let target: MessageLabelState | undefined;
+
+    await this.updateThreadLabels(
+      threadId,
+      messages => {
+        target = messageId
+          ? messages.find(message => message.id === messageId)
+          : [...messages].sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+        if (!target) {
+          throw new Error(`Message ${messageId ?? "(latest)"} not found in thread ${threadId}`);
+        }
+
+        return messages.map(message => message.id === target?.id
+          ? { ...message, labelIds: applyLabelChanges(message.labelIds, changes) }
+          : message
+        );
+      },
+      async () => {
+        await this.gmail.users.messages.modify({
+          userId: "me",
+          id: target!.gmailMessageId,
+          requestBody: {
+            addLabelIds: changes.add ?? [],
+            removeLabelIds: changes.remove ?? [],
+          },
+        });
+      }
+    );
+  }
+
+  /**
+   * Adds and removes Gmail label ids on every message of many threads at once
+   * through `users.messages.batchModify`. Threads Gmail rejects are restored
+   * locally and reported as failed; the rest still go through.
+   */
+  async batchModifyThreadLabels(threadIds: string[], changes: LabelChanges): Promise<BatchUpdateResult> {
+    return this.applyBatchLabelChanges(threadIds, changes, changes);
+  }
+
+  async batchArchive(threadIds: string[]): Promise<BatchUpdateResult> {
+    return this.batchModifyThreadLabels(threadIds, { remove: ["INBOX"] });
+  }
+
+  /**
+   * Gmail's trash keeps the INBOX label so untrashing can restore it, so only
+   * TRASH is sent; locally INBOX goes away as with a single trash.
+   */
+  async batchTrash(threadIds: string[]): Promise<BatchUpdateResult> {
+    return this.applyBatchLabelChanges(threadIds, { add: ["TRASH"], remove: ["INBOX"] }, { add: ["TRASH"] });
+  }
+
+  // Same rules as setStarred: starring marks each thread's latest message, unstarring clears them all
+  async batchSetStarred(threadIds: string[], starred: boolean): Promise<BatchUpdateResult> {
+    const changes: LabelChanges = starred ? { add: ["STARRED"] } : { remove: ["STARRED"] };
+    return this.applyBatchLabelChanges(threadIds, changes, changes, starred);
+  }
+
+  async createLabel(name: string, color?: GmailLabelColor): Promise<Label> {
+    const response = await this.gmail.users.labels.create({
+      userId: "me",
+      requestBody: {
+        name,
+        color,
+        labelListVisibility: "labelShow",
+        messageListVisibility: "show",
+      },
+    });
+
+    return await db.label.create({
+      data: {
+        userId: this.userId,
+        gmailLabelId: response.data.id!,
+        name: response.data.name ?? name,
+        type: "USER",
+        color: response.data.color?.backgroundColor,
+        messageListVisibility: response.data.messageListVisibility,
+        labelListVisibility: response.data.labelListVisibility,
+      },
+    });
+  }
+
+  /**
+   * Renames and/or recolors a user label. Gmail keeps nested labels as plain
+   * "Parent/Child" names, so renaming a parent also renames its children.
+   */
+  async updateLabel(labelId: string, changes: { name?: string; color?: GmailLabelColor }): Promise<Label> {
+    const label = await db.label.findFirstOrThrow({
+      where: { id: labelId, userId: this.userId, type: "USER" },
+    });
+
+    const response = await this.gmail.users.labels.patch({
+      userId: "me",
+      id: label.gmailLabelId,
+      requestBody: {
+        name: changes.name,
+        color: changes.color,
+      },
+    });
+
+    if (changes.name && changes.name !== label.name) {
+      const children = await db.label.findMany({
+        where: {
+          userId: this.userId,
+          type: "USER",
+          name: { startsWith: `${label.name}/` },
+        },
+      });
+
+      for (const child of children) {
+        const childName = changes.name + child.name.slice(label.name.length);
+        await this.gmail.users.labels.patch({
+          userId: "me",
+          id: child.gmailLabelId,
+          requestBody: { name: childName },
+        });
+        await db.label.update({
+          where: { id: child.id },
+          data: { name: childName },
+        });
+      }
+    }
+
+    return await db.label.update({
+      where: { id: label.id },
+      data: {
+        name: response.data.name ?? changes.name ?? label.name,
+        color: response.data.color?.backgroundColor ?? label.color,
+      },
+    });
+  }
+
+  async deleteLabel(labelId: string): Promise<void> {
+    const label = await db.label.findFirstOrThrow({
+      where: { id: labelId, userId: this.userId, type: "USER" },
+    });
+
+    try {
+      await this.gmail.users.labels.delete({ userId: "me", id: label.gmailLabelId });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+
+    // LabelThread rows cascade with the label
+    await db.label.delete({ where: { id: label.id } });
+  }
+
+  /**
+   * Creates or updates the Gmail copy of a draft and returns its Gmail draft id.
+   * A draft deleted in Gmail meanwhile is simply created again.
+   */
+  async saveGmailDraft(gmailDraftId: string | null, raw: string, gmailThreadId?: string): Promise<string> {
+    const requestBody = {
+      message: { raw, threadId: gmailThreadId },
+    };
+
+    if (gmailDraftId) {
+      try {
+        const response = await this.gmail.users.drafts.update({
+          userId: "me",
+          id: gmailDraftId,
+          requestBody,
+        });
+        return response.data.id ?? gmailDraftId;
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error;
+      }
+    }
+
+    const response = await this.gmail.users.drafts.create({
+      userId: "me",
+      requestBody,
+    });
+    return response.data.id!;
+  }
+
+  async deleteGmailDraft(gmailDraftId: string): Promise<void> {
+    try {
+      await this.gmail.users.drafts.delete({ userId: "me", id: gmailDraftId });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+  }
+
+  private async applyBatchLabelChanges(
+    threadIds: string[],
+    changes: LabelChanges,
+    gmailChanges: LabelChanges,
+    latestMessageOnly = false
+  ): Promise<BatchUpdateResult> {
+    const threads = await db.thread.findMany({
+      where: { id: { in: threadIds }, userId: this.userId },
+      select: threadLabelStateSelect,
+    });
+    const labels = await db.label.findMany({
+      where: { userId: this.userId },
+      select: { id: true, gmailLabelId: true },
+    });
+    const labelIdsByGmailId = new Map(labels.map(label => [label.gmailLabelId, label.id]));
+
+    const foundIds = new Set(threads.map(thread => thread.id));
+    const result: BatchUpdateResult = {
+      updatedThreadIds: [],
+      failedThreadIds: threadIds.filter(id => !foundIds.has(id)),
+    };
+
+    for (const group of groupThreadsForBatch(threads)) {
+      const previous = new Map<string, ThreadLabelState>();
+      const next = new Map<string, ThreadLabelState>();
+      const gmailMessageIds: string[] = [];
+
+      for (const thread of group) {
+        const targets = latestMessageOnly
+          ? [...thread.messages].sort((a, b) => b.date.getTime() - a.date.getTime()).slice(0, 1)
+          : thread.messages;
+        const targetIds = new Set(targets.map(message => message.id));
+        gmailMessageIds.push(...targets.map(message => message.gmailMessageId));
+
+        previous.set(thread.id, toThreadLabelState(thread));
+        next.set(thread.id, deriveThreadLabelState(
+          thread.messages.map(message => targetIds.has(message.id)
+            ? { ...message, labelIds: applyLabelChanges(message.labelIds, changes) }
+            : message
+          ),
+          labelIdsByGmailId
+        ));
+      }
+
+      await this.saveThreadLabelStates(next);
+
+      try {
+        for (let i = 0; i < gmailMessageIds.length; i += BATCH_MODIFY_MAX_MESSAGES) {
+          await this.gmail.users.messages.batchModify({
+            userId: "me",
+            requestBody: {
+              ids: gmailMessageIds.slice(i, i + BATCH_MODIFY_MAX_MESSAGES),
+              addLabelIds: gmailChanges.add ?? [],
+              removeLabelIds: gmailChanges.remove ?? [],
+            },
+          });
+        }
+        result.updatedThreadIds.push(...group.map(thread => thread.id));
+      } catch (error) {
+        console.error(`Gmail batchModify failed for ${group.length} threads, rolling back:`, error);
+        await this.saveThreadLabelStates(previous);
+        result.failedThreadIds.push(...group.map(thread => thread.id));
+      }
+    }
+
+    return result;
+  }
+
+  private async applyThreadLabelChanges(
+    threadId: string,
+    changes: LabelChanges,
+    writeToGmail: (gmailThreadId: string) => Promise<void>
+  ): Promise<void> {
+    await this.updateThreadLabels(
+      threadId,
+      messages => messages.map(message => ({
+        ...message,
+        labelIds: applyLabelChanges(message.labelIds, changes),
+      })),
+      writeToGmail
+    );
+  }
+
+  private async updateThreadLabels(
+    threadId: string,
+    updateMessages: (messages: MessageLabelState[]) => MessageLabelState[],
+    writeToGmail: (gmailThreadId: string) => Promise<void>
+  ): Promise<void> {
+    const thread = await db.thread.findFirstOrThrow({
+      where: { id: threadId, userId: this.userId },
+      select: { gmailThreadId: true },
+    });
+
+    const previous = await this.getThreadLabelState(threadId);
+    const next = await this.buildThreadLabelState(updateMessages(previous.messages));
+
+    await this.saveThreadLabelState(threadId, next);
+
+    try {
+      await writeToGmail(thread.gmailThreadId);
+    } catch (error) {
+      console.error(`Gmail modify failed for thread ${threadId}, rolling back:`, error);
+      await this.saveThreadLabelState(threadId, previous);
+      throw error;
+    }
+  }
+
+  private async getThreadLabelState(threadId: string): Promise<ThreadLabelState> {
+    const thread = await db.thread.findUniqueOrThrow({
+      where: { id: threadId },
+      select: threadLabelStateSelect,
+    });
+
+    return toThreadLabelState(thread);
+  }
+
+  private async buildThreadLabelState(messages: MessageLabelState[]): Promise<ThreadLabelState> {
+    const gmailLabelIds = new Set(messages.flatMap(message => message.labelIds));
+
+    const labels = await db.label.findMany({
+      where: {
+        userId: this.userId,
+        gmailLabelId: { in: [...gmailLabelIds] },
+      },
+      select: { id: true, gmailLabelId: true },
+    });
+
+    return deriveThreadLabelState(messages, new Map(labels.map(label => [label.gmailLabelId, label.id])));
+  }
+
+  private async saveThreadLabelState(threadId: string, state: ThreadLabelState): Promise<void> {
+    await this.saveThreadLabelStates(new Map([[threadId, state]]));
+  }
+
+  // One transaction for all the threads, so a batch is never left half-saved
+  private async saveThreadLabelStates(states: Map<string, ThreadLabelState>): Promise<void> {
+    await db.$transaction([...states].flatMap(([threadId, state]) => [
+      ...state.messages.map(message => db.message.update({
+        where: { id: message.id },
+        data: { labelIds: message.labelIds },
+      })),
+      db.thread.update({
+        where: { id: threadId },
+        data: {
+          unread: state.unread,
+          starred: state.starred,
+          important: state.important,
+        },
+      }),
+      db.labelThread.deleteMany({ where: { threadId } }),
+      db.labelThread.createMany({
+        data: state.labelIds.map(labelId => ({ labelId, threadId })),
+        skipDuplicates: true,
+      }),
+    ]));
+  }
+}
+
+function toThreadLabelState(thread: {
+  unread: boolean;
+  starred: boolean;
+  important: boolean;
+  messages: MessageLabelState[];
+  labelThreads: Array<{ labelId: string }>;
+}): ThreadLabelState {
+  return {
+    messages: thread.messages,
+    unread: thread.unread,
+    starred: thread.starred,
+    important: thread.important,
+    labelIds: thread.labelThreads.map(lt => lt.labelId),
+  };
+}
+
+// Derives thread flags and label links from its messages, see getThreadLabelState
+function deriveThreadLabelState(
+  messages: MessageLabelState[],
+  labelIdsByGmailId: Map<string, string>
+): ThreadLabelState {
+  const { gmailLabelIds, ...flags } = getThreadLabelState(messages);
+
+  return {
+    messages,
+    ...flags,
+    labelIds: gmailLabelIds
+      .map(gmailLabelId => labelIdsByGmailId.get(gmailLabelId))
+      .filter((labelId): labelId is string => labelId !== undefined),
+  };
+}
+
+/**
+ * Packs threads into groups that fit one batchModify call, so a rejected call
+ * only fails the threads in it. A thread with more messages than one call
+ * allows gets a group of its own.
+ */
+function groupThreadsForBatch<T extends { messages: unknown[] }>(threads: T[]): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let messageCount = 0;
+
+  for (const thread of threads) {
+    if (current.length > 0 && messageCount + thread.messages.length > BATCH_MODIFY_MAX_MESSAGES) {
+      groups.push(current);
+      current = [];
+      messageCount = 0;
+    }
+    current.push(thread);
+    messageCount += thread.messages.length;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+function applyLabelChanges(labelIds: string[], changes: LabelChanges): string[] {
+  const result = new Set(labelIds);
+  for (const labelId of changes.remove ?? []) result.delete(labelId);
+  for (const labelId of changes.add ?? []) result.add(labelId);
+  return [...result];
+}
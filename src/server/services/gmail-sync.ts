@@ -5,17 +5,37 @@ import {
   getUserRefreshToken, 
   extractEmailContent, 
   getHeaderValue,
-  parseEmailAddresses,
+  getThreadLabelState,
+  isNotFoundError,
   type GmailThread,
   type GmailMessage,
   type GmailLabel,
+  type ExtractedAttachment,
 } from "../gmail";
-import { uploadToS3, S3_PATHS } from "../s3";
+import { formatParsedAddress, parseAddress, parseAddressList, parseMessageIdList } from "../email-address";
+import { getFromS3AsBuffer, uploadToS3, S3_PATHS } from "../s3";
+import { indexAttachmentText, indexUnindexedMessages, updateMessageSearchVectors } from "../search";
+import { canExtractAttachmentText, extractAttachmentText } from "../attachment-text";
 import { type JobStatus, type SyncType } from "@prisma/client";
+import { env } from "~/env";
 
 const BATCH_SIZE = 50;
 const THREADS_PER_PAGE = 100;
 const MAX_CONCURRENT_BATCHES = 5;
+const TEXT_EXTRACTION_BATCH_SIZE = 20;
+const TEXT_EXTRACTION_RESERVE = 10000; // Time left before a deadline that one extraction may take
+const RECIPIENT_BACKFILL_BATCH_SIZE = 1000;
+const HISTORY_PAGE_SIZE = 100;
+const PRODUCTION_TIMEOUT = 280000; // 280 seconds - safe margin for 300s Vercel limit
+const BATCH_TIMEOUT = 30000; // Budget for one syncBatch call
+const WEBHOOK_TIMEOUT = 45000; // The webhook route may run for 60 seconds
+const WEBHOOK_MAX_DURATION = 60000; // maxDuration of the webhook route
+const MAX_SYNC_DURATION = 300000; // Vercel's limit for the routes that run other syncs
+
+// "incomplete" means the time budget ran out; the saved historyId marks where to resume
+type HistorySyncResult = "applied" | "incomplete" | "unavailable";
+
+export type SyncMailboxResult = "synced" | "full_sync_required" | "already_syncing";
 
 export class GmailSyncService {
   private gmail: gmail_v1.Gmail;
@@ -35,7 +55,20 @@ export class GmailSyncService {
     return new GmailSyncService(gmail, userId);
   }
 
-  async syncMailbox(syncType: SyncType = "FULL"): Promise<void> {
+  /**
+   * Only one sync runs per mailbox; others return "already_syncing". A webhook
+   * sync that could not replay history returns "full_sync_required": the full
+   * sync it needs does not fit in a webhook request, so the user is left PENDING
+   * for the cron job or the batched sync to pick up.
+   */
+  async syncMailbox(syncType: SyncType = "FULL"): Promise<SyncMailboxResult> {
+    const startTime = Date.now();
+
+    if (!(await this.claimSync(syncType === "WEBHOOK" ? WEBHOOK_MAX_DURATION : MAX_SYNC_DURATION))) {
+      console.log(`⏳ Sync already running for user ${this.userId}`);
+      return "already_syncing";
+    }
+
     try {
       // Create sync job
       const syncJob = await db.syncJob.create({
@@ -47,23 +80,41 @@ export class GmailSyncService {
       });
       this.syncJobId = syncJob.id;
 
-      // Update user sync status and show initial progress
-      await db.user.update({
-        where: { id: this.userId },
-        data: { syncStatus: "SYNCING" },
-      });
-
       // Show 1% progress immediately for production visibility
       await this.updateSyncProgress(1, 100);
 
       // Sync labels first
       await this.syncLabels();
+      // Push syncs have too little time for the one-off backfill; other syncs run it
+      if (syncType !== "WEBHOOK") {
+        await this.normalizeLegacyRecipients();
+      }
       
       // Show 3% progress after labels
       await this.updateSyncProgress(3, 100);
 
-      // Sync threads
-      await this.syncThreads();
+      // Partial syncs replay Gmail history since the last sync; without a usable
+      // historyId we fall back to listing every thread. History left over when the
+      // time runs out is picked up by the next sync from the saved historyId
+      const historyResult = syncType !== "FULL"
+        ? await this.syncHistory(startTime + (syncType === "WEBHOOK" ? WEBHOOK_TIMEOUT : PRODUCTION_TIMEOUT))
+        : "unavailable";
+      if (historyResult === "unavailable" && syncType === "WEBHOOK") {
+        console.log("📭 History unavailable, leaving the full sync to the cron job");
+        await this.completeSyncJob("COMPLETED");
+        await db.user.update({
+          where: { id: this.userId },
+          data: { syncStatus: "PENDING" },
+        });
+        return "full_sync_required";
+      }
+      if (historyResult === "unavailable") {
+        const historyId = await this.getMailboxHistoryId();
+        const completed = await this.syncThreads();
+        if (completed) {
+          await this.saveHistoryId(historyId);
+        }
+      }
 
       // Mark sync as completed
       console.log("🏁 Marking sync job as completed");
@@ -76,6 +127,8 @@ export class GmailSyncService {
           lastSyncedAt: new Date(),
         },
       });
+
+      return "synced";
     } catch (error) {
       console.error("Sync failed:", error);
       
@@ -102,9 +155,58 @@ export class GmailSyncService {
     }
   }
 
+  /**
+   * Marks the user SYNCING unless another sync holds the status. The check and
+   * the update are one statement, so concurrent pushes can't both pass it. The
+   * lease lets a sync killed at the route's maxDuration be taken over.
+   */
+  private async claimSync(leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const { count } = await db.user.updateMany({
+      where: {
+        id: this.userId,
+        OR: [
+          { syncStatus: { not: "SYNCING" } },
+          { syncLeaseExpiresAt: null },
+          { syncLeaseExpiresAt: { lt: now } },
+        ],
+      },
+      data: {
+        syncStatus: "SYNCING",
+        syncLeaseExpiresAt: new Date(now.getTime() + leaseMs),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Registers (or renews) the Gmail push notification watch for this mailbox.
+   * Gmail expires watches after 7 days, so this has to be called regularly.
+   */
+  async startWatch(): Promise<Date | null> {
+    if (!env.GMAIL_PUBSUB_TOPIC) return null;
+
+    const response = await this.gmail.users.watch({
+      userId: "me",
+      requestBody: {
+        topicName: env.GMAIL_PUBSUB_TOPIC,
+      },
+    });
+
+    const watchExpiresAt = response.data.expiration
+      ? new Date(parseInt(response.data.expiration))
+      : null;
+
+    await db.user.update({
+      where: { id: this.userId },
+      data: { watchExpiresAt },
+    });
+
+    return watchExpiresAt;
+  }
+
   async syncBatch(): Promise<{ completed: boolean; progress: number; processedItems: number; totalItems: number }> {
     const BATCH_SIZE = 20; // Increased for 400+ threads/min target
-    const BATCH_TIMEOUT = 30000; // 30 seconds
     const startTime = Date.now();
     
     console.log(`🔄 Starting sync batch (batch size: ${BATCH_SIZE})`);
@@ -125,7 +227,7 @@ export class GmailSyncService {
         data: {
           userId: this.userId,
           status: "RUNNING",
-          type: "FULL",
+          type: "PARTIAL",
         },
       });
       
@@ -133,11 +235,52 @@ export class GmailSyncService {
       console.log(`🏷️ Syncing labels for new job...`);
       await this.syncLabels();
       console.log(`✅ Labels synced`);
+      await this.normalizeLegacyRecipients();
     } else {
       console.log(`📂 Continuing existing sync job ${syncJob.id} (processed: ${syncJob.processedItems})`);
     }
 
     this.syncJobId = syncJob.id;
+
+    // Jobs start as incremental syncs from the stored historyId, spread over as
+    // many batches as the history needs
+    if (syncJob.type !== "FULL") {
+      const historyResult = await this.syncHistory(startTime + BATCH_TIMEOUT);
+
+      if (historyResult !== "unavailable") {
+        const currentJob = await db.syncJob.findUnique({ where: { id: syncJob.id } });
+        const completed = historyResult === "applied";
+
+        if (completed) {
+          console.log(`🏁 Incremental sync applied, completing sync`);
+          await this.completeSyncJob("COMPLETED");
+          await db.user.update({
+            where: { id: this.userId },
+            data: { 
+              syncStatus: "COMPLETED",
+              lastSyncedAt: new Date(),
+            },
+          });
+        }
+
+        return {
+          completed,
+          progress: completed ? 100 : currentJob?.progress ?? 0,
+          processedItems: currentJob?.processedItems ?? 0,
+          totalItems: currentJob?.totalItems ?? 0,
+        };
+      }
+
+      // No usable historyId, so this job becomes a batched full sync. Capture the
+      // mailbox historyId now so changes made while we page through are replayed later
+      syncJob = await db.syncJob.update({
+        where: { id: syncJob.id },
+        data: {
+          type: "FULL",
+          historyId: await this.getMailboxHistoryId(),
+        },
+      });
+    }
     
     // Get next batch of threads
     console.log(`📥 Fetching next batch of ${BATCH_SIZE} threads (pageToken: ${syncJob.nextPageToken ? 'yes' : 'none'})`);
@@ -153,6 +296,7 @@ export class GmailSyncService {
         data: { 
           syncStatus: "COMPLETED",
           lastSyncedAt: new Date(),
+          historyId: syncJob.historyId ?? undefined,
         },
       });
       
@@ -166,7 +310,7 @@ export class GmailSyncService {
 
     // Process threads with bulk operations for better performance
     console.log(`🚀 Processing ${threads.items.length} threads with bulk operations`);
-    const bulkResult = await this.syncThreadsBulk(threads.items);
+    const bulkResult = await this.syncThreadsBulk(threads.items, { deadline: startTime + BATCH_TIMEOUT });
     const processedInBatch = bulkResult.processedCount;
     
     const elapsed = Date.now() - startTime;
@@ -202,6 +346,7 @@ export class GmailSyncService {
         data: { 
           syncStatus: "COMPLETED",
           lastSyncedAt: new Date(),
+          historyId: syncJob.historyId ?? undefined,
         },
       });
     }
@@ -228,10 +373,134 @@ export class GmailSyncService {
     };
   }
 
-  private async syncThreadsBulk(threadItems: any[]): Promise<{ processedCount: number }> {
+  private async getMailboxHistoryId(): Promise<string | null> {
+    const response = await this.gmail.users.getProfile({ userId: "me" });
+    return response.data.historyId ?? null;
+  }
+
+  private async saveHistoryId(historyId: string | null): Promise<void> {
+    if (!historyId) return;
+
+    await db.user.update({
+      where: { id: this.userId },
+      data: { historyId },
+    });
+  }
+
+  /**
+   * Applies the changes recorded in Gmail's history since the stored historyId,
+   * one page of history at a time. Returns "unavailable" when there is no stored
+   * historyId or Gmail no longer has the history for it, in which case the caller
+   * should run a full sync instead. When the deadline passes between pages the
+   * historyId of the last applied record is saved and "incomplete" returned.
+   */
+  private async syncHistory(deadline: number): Promise<HistorySyncResult> {
+    const user = await db.user.findUnique({
+      where: { id: this.userId },
+      select: { historyId: true },
+    });
+
+    if (!user?.historyId) {
+      console.log(`📭 No stored historyId, a full sync is required`);
+      return "unavailable";
+    }
+
+    let appliedHistoryId = user.historyId;
+    let pageToken: string | undefined;
+    let processedThreads = 0;
+
+    console.log(`📜 Fetching Gmail history since ${user.historyId}`);
+
+    do {
+      if (Date.now() > deadline) {
+        console.log(`⏰ Time budget spent, incremental sync resumes from historyId ${appliedHistoryId}`);
+        await this.saveHistoryId(appliedHistoryId);
+        return "incomplete";
+      }
+
+      let response;
+      try {
+        response = await this.gmail.users.history.list({
+          userId: "me",
+          startHistoryId: user.historyId,
+          maxResults: HISTORY_PAGE_SIZE,
+          pageToken,
+        });
+      } catch (error) {
+        // Gmail only keeps history for a limited time and answers 404 for expired ids
+        if (isNotFoundError(error) && !pageToken) {
+          console.log(`⌛ historyId ${user.historyId} has expired, a full sync is required`);
+          return "unavailable";
+        }
+        throw error;
+      }
+
+      const changedThreadIds = new Set<string>();
+      const deletedMessageIds = new Set<string>();
+      let lastRecordId: string | null = null;
+
+      for (const record of response.data.history ?? []) {
+        const changes = [
+          ...(record.messagesAdded ?? []),
+          ...(record.labelsAdded ?? []),
+          ...(record.labelsRemoved ?? []),
+        ];
+        for (const change of changes) {
+          if (change.message?.threadId) changedThreadIds.add(change.message.threadId);
+        }
+
+        for (const change of record.messagesDeleted ?? []) {
+          if (change.message?.id) deletedMessageIds.add(change.message.id);
+          if (change.message?.threadId) changedThreadIds.add(change.message.threadId);
+        }
+
+        lastRecordId = record.id ?? lastRecordId;
+      }
+
+      console.log(`📊 History page contains ${changedThreadIds.size} changed threads and ${deletedMessageIds.size} deleted messages`);
+
+      if (deletedMessageIds.size > 0) {
+        await db.message.deleteMany({
+          where: {
+            gmailMessageId: { in: [...deletedMessageIds] },
+            thread: { userId: this.userId },
+          },
+        });
+      }
+
+      // Re-fetch every touched thread so added messages and label changes are applied
+      const threadIds = [...changedThreadIds];
+      for (let i = 0; i < threadIds.length; i += BATCH_SIZE) {
+        const batch = threadIds.slice(i, i + BATCH_SIZE);
+        await this.syncThreadsBulk(batch.map(id => ({ id })), { reconcile: true, deadline });
+        processedThreads += batch.length;
+        await this.updateSyncProgress(processedThreads, processedThreads + (response.data.nextPageToken ? HISTORY_PAGE_SIZE : 0));
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+      // The last page carries the mailbox's current historyId
+      appliedHistoryId = (pageToken ? lastRecordId : response.data.historyId) ?? appliedHistoryId;
+    } while (pageToken);
+
+    await this.saveHistoryId(appliedHistoryId);
+    console.log(`✅ Incremental sync applied up to historyId ${appliedHistoryId}`);
+
+    return "applied";
+  }
+
+  /**
+   * With a deadline, attachment text is not extracted while storing new
+   * attachments; the pending extraction afterwards only runs while time is left
+   * and leaves the rest (textExtractedAt still null) to later syncs.
+   */
+  private async syncThreadsBulk(
+    threadItems: any[],
+    options: { reconcile?: boolean; deadline?: number } = {}
+  ): Promise<{ processedCount: number }> {
     console.log(`📥 Fetching ${threadItems.length} threads from Gmail API in parallel`);
     
     // Step 1: Fetch all thread data in parallel
+    const missingThreadIds: string[] = [];
     const threadPromises = threadItems.map(async (threadItem) => {
       try {
         const response = await this.gmail.users.threads.get({
@@ -240,7 +509,11 @@ export class GmailSyncService {
         });
         return response.data;
       } catch (error) {
-        console.error(`Failed to fetch thread ${threadItem.id}:`, error);
+        if (isNotFoundError(error)) {
+          missingThreadIds.push(threadItem.id!);
+        } else {
+          console.error(`Failed to fetch thread ${threadItem.id}:`, error);
+        }
         return null;
       }
     });
@@ -271,9 +544,7 @@ export class GmailSyncService {
                      getHeaderValue(firstMessage.payload?.headers, "Subject") || 
                      "(no subject)";
 
-      const isUnread = lastMessage.labelIds?.includes("UNREAD") ?? false;
-      const isStarred = lastMessage.labelIds?.includes("STARRED") ?? false;
-      const isImportant = lastMessage.labelIds?.includes("IMPORTANT") ?? false;
+      const { unread, starred, important } = getThreadLabelState(messages);
 
       // Prepare thread data
       threadsToCreate.push({
@@ -282,9 +553,9 @@ export class GmailSyncService {
         subject,
         snippet: threadData.snippet || "",
         lastMessageDate: new Date(parseInt(lastMessage.internalDate || "0")),
-        unread: isUnread,
-        starred: isStarred,
-        important: isImportant,
+        unread,
+        starred,
+        important,
         messageCount: messages.length,
       });
 
@@ -293,14 +564,17 @@ export class GmailSyncService {
         if (!message.payload?.headers || !message.id) continue; // Skip invalid messages
         
         const headers = message.payload.headers;
-        const from = getHeaderValue(headers, "From");
-        const to = parseEmailAddresses(getHeaderValue(headers, "To"));
-        const cc = parseEmailAddresses(getHeaderValue(headers, "Cc"));
-        const bcc = parseEmailAddresses(getHeaderValue(headers, "Bcc"));
+        const sender = parseAddress(getHeaderValue(headers, "From"));
+        const from = sender ? formatParsedAddress(sender) : getHeaderValue(headers, "From");
+        const to = parseAddressList(getHeaderValue(headers, "To")).map(a => a.address);
+        const cc = parseAddressList(getHeaderValue(headers, "Cc")).map(a => a.address);
+        const bcc = parseAddressList(getHeaderValue(headers, "Bcc")).map(a => a.address);
+        const replyTo = parseAddressList(getHeaderValue(headers, "Reply-To")).map(a => a.address);
         const messageSubject = getHeaderValue(headers, "Subject") || "(no subject)";
         const date = new Date(parseInt(message.internalDate || "0"));
-        const inReplyTo = getHeaderValue(headers, "In-Reply-To") || null;
-        const references = parseEmailAddresses(getHeaderValue(headers, "References"));
+        const rfcMessageId = parseMessageIdList(getHeaderValue(headers, "Message-ID"))[0] ?? null;
+        const inReplyTo = parseMessageIdList(getHeaderValue(headers, "In-Reply-To"))[0] ?? null;
+        const references = parseMessageIdList(getHeaderValue(headers, "References"));
 
         // Extract content including attachments
         const { html, text, attachments } = extractEmailContent(message);
@@ -319,10 +593,12 @@ export class GmailSyncService {
         const messageData = {
           gmailMessageId: message.id,
           gmailThreadId: message.threadId,
+          rfcMessageId,
           from,
           to,
           cc,
           bcc,
+          replyTo,
           subject: messageSubject,
           snippet: message.snippet,
           date,
@@ -390,6 +666,18 @@ export class GmailSyncService {
       threadId: threadIdMap.get(msg.gmailThreadId),
     }));
 
+    // Messages we already store keep their attachments; Gmail's attachment ids
+    // change between fetches, so they could not be matched up again anyway
+    const existingMessages = await db.message.findMany({
+      where: {
+        gmailMessageId: { in: messagesToCreate.map(m => m.gmailMessageId) },
+        thread: { userId: this.userId },
+      },
+      select: { gmailMessageId: true },
+    });
+    const existingGmailMessageIds = new Set(existingMessages.map(m => m.gmailMessageId));
+    const newAttachments = attachmentsToProcess.filter(item => !existingGmailMessageIds.has(item.gmailMessageId));
+
     // Bulk insert messages (will skip duplicates)
     try {
       await db.message.createMany({
@@ -400,18 +688,37 @@ export class GmailSyncService {
       console.log("Some messages already exist, continuing...");
     }
 
+    // Bulk inserts can't compute the search vector, so index whatever is still missing one
+    await indexUnindexedMessages(this.userId);
+
+    // Incremental syncs revisit threads we already store, so existing rows have to
+    // follow Gmail: refresh message labels and drop messages and threads that are gone
+    if (options.reconcile) {
+      await this.reconcileExistingMessages(messagesWithThreadIds);
+
+      if (missingThreadIds.length > 0) {
+        console.log(`🗑️ Removing ${missingThreadIds.length} threads deleted in Gmail`);
+        await db.thread.deleteMany({
+          where: {
+            userId: this.userId,
+            gmailThreadId: { in: missingThreadIds },
+          },
+        });
+      }
+    }
+
     const bulkTime = Date.now() - bulkStart;
     console.log(`💾 Bulk database operations completed in ${bulkTime}ms`);
 
-    // Step 4: Process attachments
-    if (attachmentsToProcess.length > 0) {
-      console.log(`📎 Processing ${attachmentsToProcess.length} attachments`);
+    // Step 4: Process attachments of newly inserted messages
+    if (newAttachments.length > 0) {
+      console.log(`📎 Processing ${newAttachments.length} attachments`);
       
       // Get message IDs for attachments
       const messageIdMap = new Map();
       const createdMessages = await db.message.findMany({
         where: {
-          gmailMessageId: { in: messagesToCreate.map(m => m.gmailMessageId) },
+          gmailMessageId: { in: newAttachments.map(item => item.gmailMessageId) },
         },
         select: { id: true, gmailMessageId: true },
       });
@@ -422,14 +729,14 @@ export class GmailSyncService {
 
       // Process attachments in smaller batches to avoid overwhelming Gmail API
       const ATTACHMENT_BATCH_SIZE = 5;
-      for (let i = 0; i < attachmentsToProcess.length; i += ATTACHMENT_BATCH_SIZE) {
-        const batch = attachmentsToProcess.slice(i, i + ATTACHMENT_BATCH_SIZE);
+      for (let i = 0; i < newAttachments.length; i += ATTACHMENT_BATCH_SIZE) {
+        const batch = newAttachments.slice(i, i + ATTACHMENT_BATCH_SIZE);
         
         await Promise.all(batch.map(async (item) => {
           const messageId = messageIdMap.get(item.gmailMessageId);
           if (messageId) {
             try {
-              await this.syncAttachment(messageId, item.gmailMessageId, item.attachment);
+              await this.syncAttachment(messageId, item.gmailMessageId, item.attachment, options.deadline === undefined);
             } catch (error) {
               console.error(`Failed to sync attachment for message ${item.gmailMessageId}:`, error);
             }
@@ -440,6 +747,9 @@ export class GmailSyncService {
       console.log(`✅ Attachments processing completed`);
     }
 
+    // Attachments stored before text extraction existed are caught up a few at a time
+    await this.extractPendingAttachmentText(options.deadline);
+
     // Step 5: Bulk sync thread labels (needed for Inbox filtering)
     console.log(`🏷️ Bulk syncing thread labels for ${createdThreads.length} threads`);
     await this.syncThreadLabelsBulk(validThreads, createdThreads);
@@ -466,6 +776,35 @@ export class GmailSyncService {
     return { processedCount: validThreads.length };
   }
 
+  private async reconcileExistingMessages(
+    messages: Array<{ threadId?: string; gmailMessageId: string; rfcMessageId: string | null; labelIds: string[] }>
+  ): Promise<void> {
+    const gmailMessageIdsByThread = new Map<string, string[]>();
+    for (const message of messages) {
+      if (!message.threadId) continue;
+      const ids = gmailMessageIdsByThread.get(message.threadId) ?? [];
+      ids.push(message.gmailMessageId);
+      gmailMessageIdsByThread.set(message.threadId, ids);
+    }
+
+    for (const [threadId, gmailMessageIds] of gmailMessageIdsByThread) {
+      await db.message.deleteMany({
+        where: {
+          threadId,
+          gmailMessageId: { notIn: gmailMessageIds },
+        },
+      });
+    }
+
+    await db.$transaction(
+      messages.map(message => db.message.updateMany({
+        where: { gmailMessageId: message.gmailMessageId },
+        // Messages we sent were stored with the Message-ID we generated, which Gmail may have replaced
+        data: { labelIds: message.labelIds, rfcMessageId: message.rfcMessageId ?? undefined },
+      }))
+    );
+  }
+
   private async syncThreadLabelsBulk(validThreads: any[], createdThreads: any[]): Promise<void> {
     // Step 1: Collect all thread IDs and their label data
     const threadLabelData: Array<{ threadId: string; labelIds: string[] }> = [];
@@ -476,12 +815,9 @@ export class GmailSyncService {
       const thread = createdThreads[i];
       
       if (threadData?.messages && threadData.messages.length > 0 && thread?.id) {
-        const lastMessage = threadData.messages[threadData.messages.length - 1] as GmailMessage;
-        const labelIds = lastMessage?.labelIds || [];
-        
         threadLabelData.push({
           threadId: thread.id,
-          labelIds: labelIds,
+          labelIds: getThreadLabelState(threadData.messages as GmailMessage[]).gmailLabelIds,
         });
         allThreadIds.push(thread.id);
       }
@@ -600,12 +936,66 @@ export class GmailSyncService {
     }
   }
 
-  private async syncThreads(): Promise<void> {
+  /**
+   * Rewrites recipients stored by earlier versions, which kept the raw
+   * comma-split header ("Jane Doe <Jane@x.com>", or a quoted name cut in two),
+   * as the lower-cased bare addresses that to:/cc: search matches. Existing
+   * messages are never re-inserted by the sync, so they are fixed up here, once
+   * per user.
+   */
+  private async normalizeLegacyRecipients(): Promise<void> {
+    const user = await db.user.findUnique({
+      where: { id: this.userId },
+      select: { recipientsNormalizedAt: true },
+    });
+    if (user?.recipientsNormalizedAt) return;
+
+    let cursor = "";
+
+    while (true) {
+      const messages = await db.$queryRaw<Array<{ id: string; to: string[]; cc: string[]; bcc: string[] }>>`
+        SELECT m."id", m."to", m."cc", m."bcc"
+        FROM "Message" m
+        JOIN "Thread" t ON t."id" = m."threadId"
+        WHERE t."userId" = ${this.userId}
+          AND m."id" > ${cursor}
+          AND EXISTS (
+            SELECT 1 FROM unnest(m."to" || m."cc" || m."bcc") r
+            WHERE r ~ '[<>[:space:]]' OR r <> lower(r)
+          )
+        ORDER BY m."id"
+        LIMIT ${RECIPIENT_BACKFILL_BATCH_SIZE}
+      `;
+      if (messages.length === 0) break;
+
+      const normalize = (entries: string[]) => parseAddressList(entries.join(", ")).map(a => a.address);
+      await db.$transaction(
+        messages.map(message => db.message.update({
+          where: { id: message.id },
+          data: { to: normalize(message.to), cc: normalize(message.cc), bcc: normalize(message.bcc) },
+        }))
+      );
+      console.log(`📇 Normalized recipients of ${messages.length} messages`);
+
+      if (messages.length < RECIPIENT_BACKFILL_BATCH_SIZE) break;
+      cursor = messages[messages.length - 1]!.id;
+    }
+
+    await db.user.update({
+      where: { id: this.userId },
+      data: { recipientsNormalizedAt: new Date() },
+    });
+  }
+
+  /**
+   * Lists and syncs every thread in the mailbox. Returns false when it had to stop
+   * early because of the production timeout.
+   */
+  private async syncThreads(): Promise<boolean> {
     let pageToken: string | undefined;
     let totalThreads = 0;
     let processedThreads = 0;
     const startTime = Date.now();
-    const PRODUCTION_TIMEOUT = 280000; // 280 seconds - safe margin for 300s Vercel limit
 
     console.log("🔄 Starting thread sync...");
 
@@ -616,7 +1006,7 @@ export class GmailSyncService {
         if (elapsedTime > PRODUCTION_TIMEOUT) {
           console.log(`⏰ PRODUCTION TIMEOUT: Processed ${processedThreads}/${totalThreads} threads in ${elapsedTime}ms`);
           console.log(`💾 Saving progress and exiting gracefully`);
-          return; // Exit gracefully before Vercel kills us
+          return false; // Exit gracefully before Vercel kills us
         }
       }
 
@@ -658,6 +1048,7 @@ export class GmailSyncService {
     
     const totalElapsed = Date.now() - startTime;
     console.log(`✅ Thread sync completed: ${processedThreads} threads processed in ${Math.round(totalElapsed/1000)}s`);
+    return true;
   }
 
   private async syncThread(gmailThreadId: string): Promise<void> {
@@ -679,11 +1070,7 @@ export class GmailSyncService {
                      getHeaderValue(firstMessage.payload.headers, "Subject") || 
                      "(no subject)";
       
-      // Check for INBOX label to determine if unread
-      const hasInbox = lastMessage.labelIds?.includes("INBOX") ?? false;
-      const isUnread = lastMessage.labelIds?.includes("UNREAD") ?? false;
-      const isStarred = lastMessage.labelIds?.includes("STARRED") ?? false;
-      const isImportant = lastMessage.labelIds?.includes("IMPORTANT") ?? false;
+      const labelState = getThreadLabelState(threadData.messages as GmailMessage[]);
 
       // Upsert thread
       const thread = await db.thread.upsert({
@@ -697,9 +1084,9 @@ export class GmailSyncService {
           subject,
           snippet: threadData.snippet || "",
           lastMessageDate: new Date(parseInt(lastMessage.internalDate)),
-          unread: isUnread,
-          starred: isStarred,
-          important: isImportant,
+          unread: labelState.unread,
+          starred: labelState.starred,
+          important: labelState.important,
           messageCount: threadData.messages.length,
         },
         create: {
@@ -708,9 +1095,9 @@ export class GmailSyncService {
           subject,
           snippet: threadData.snippet || "",
           lastMessageDate: new Date(parseInt(lastMessage.internalDate)),
-          unread: isUnread,
-          starred: isStarred,
-          important: isImportant,
+          unread: labelState.unread,
+          starred: labelState.starred,
+          important: labelState.important,
           messageCount: threadData.messages.length,
         },
       });
@@ -721,7 +1108,7 @@ export class GmailSyncService {
       }
 
       // Sync thread labels
-      await this.syncThreadLabels(thread.id, lastMessage.labelIds || []);
+      await this.syncThreadLabels(thread.id, labelState.gmailLabelIds);
     } catch (error) {
       console.error(`Failed to sync thread ${gmailThreadId}:`, error);
       // Re-throw to stop sync on critical errors
@@ -733,14 +1120,17 @@ export class GmailSyncService {
 
   private async syncMessage(message: GmailMessage, threadId: string, skipAttachments = false): Promise<void> {
     const headers = message.payload.headers;
-    const from = getHeaderValue(headers, "From");
-    const to = parseEmailAddresses(getHeaderValue(headers, "To"));
-    const cc = parseEmailAddresses(getHeaderValue(headers, "Cc"));
-    const bcc = parseEmailAddresses(getHeaderValue(headers, "Bcc"));
+    const sender = parseAddress(getHeaderValue(headers, "From"));
+    const from = sender ? formatParsedAddress(sender) : getHeaderValue(headers, "From");
+    const to = parseAddressList(getHeaderValue(headers, "To")).map(a => a.address);
+    const cc = parseAddressList(getHeaderValue(headers, "Cc")).map(a => a.address);
+    const bcc = parseAddressList(getHeaderValue(headers, "Bcc")).map(a => a.address);
+    const replyTo = parseAddressList(getHeaderValue(headers, "Reply-To")).map(a => a.address);
     const subject = getHeaderValue(headers, "Subject") || "(no subject)";
     const date = new Date(parseInt(message.internalDate));
-    const inReplyTo = getHeaderValue(headers, "In-Reply-To") || null;
-    const references = parseEmailAddresses(getHeaderValue(headers, "References"));
+    const rfcMessageId = parseMessageIdList(getHeaderValue(headers, "Message-ID"))[0] ?? null;
+    const inReplyTo = parseMessageIdList(getHeaderValue(headers, "In-Reply-To"))[0] ?? null;
+    const references = parseMessageIdList(getHeaderValue(headers, "References"));
 
     // Extract content
     const { html, text, attachments } = extractEmailContent(message);
@@ -761,16 +1151,21 @@ export class GmailSyncService {
         snippet: message.snippet,
         htmlS3Key,
         textContent: text,
+        // Fill in headers for messages synced before they were stored
+        rfcMessageId,
+        replyTo,
         labelIds: message.labelIds || [],
       },
       create: {
         threadId,
         gmailMessageId: message.id,
         gmailThreadId: message.threadId,
+        rfcMessageId,
         from,
         to,
         cc,
         bcc,
+        replyTo,
         subject,
         snippet: message.snippet,
         date,
@@ -782,6 +1177,8 @@ export class GmailSyncService {
       },
     });
 
+    await updateMessageSearchVectors([savedMessage.id]);
+
     // Sync attachments (skip for initial sync speed)
     if (!skipAttachments) {
       for (const attachment of attachments) {
@@ -793,12 +1190,8 @@ export class GmailSyncService {
   private async syncAttachment(
     messageId: string, 
     gmailMessageId: string,
-    attachment: {
-      filename: string;
-      mimeType: string;
-      attachmentId: string;
-      size: number;
-    }
+    attachment: ExtractedAttachment,
+    extractText = true
   ): Promise<void> {
     // Check if attachment already exists
     const existing = await db.attachment.findFirst({
@@ -831,7 +1224,7 @@ export class GmailSyncService {
     await uploadToS3(s3Key, attachmentData, attachment.mimeType);
 
     // Save to database
-    await db.attachment.create({
+    const savedAttachment = await db.attachment.create({
       data: {
         messageId,
         filename: attachment.filename,
@@ -839,8 +1232,70 @@ export class GmailSyncService {
         size: attachment.size,
         s3Key,
         gmailAttachmentId: attachment.attachmentId,
+        contentId: attachment.contentId,
+        inline: attachment.inline,
       },
     });
+
+    // Inline images have no text worth searching; deferred ones are extracted as pending
+    if (!attachment.inline && extractText) {
+      await this.indexAttachmentContent(savedAttachment.id, attachmentData, attachment.mimeType, attachment.filename);
+    }
+  }
+
+  // Extraction and indexing failures only cost search coverage, so they never fail the sync
+  private async indexAttachmentContent(
+    attachmentId: string,
+    content: Buffer,
+    mimeType: string,
+    filename: string
+  ): Promise<void> {
+    let text: string | null = null;
+    try {
+      text = await extractAttachmentText(content, mimeType, filename);
+    } catch (error) {
+      console.error(`Failed to extract text from attachment ${filename}:`, error);
+    }
+
+    try {
+      await indexAttachmentText(attachmentId, text || null);
+    } catch (error) {
+      // Recorded without text so the attachment isn't picked up again on every sync
+      console.error(`Failed to index text of attachment ${filename}:`, error);
+      await indexAttachmentText(attachmentId, null).catch(() => undefined);
+    }
+  }
+
+  private async extractPendingAttachmentText(deadline?: number): Promise<void> {
+    const pending = await db.attachment.findMany({
+      where: {
+        inline: false,
+        textExtractedAt: null,
+        message: { thread: { userId: this.userId } },
+      },
+      select: { id: true, s3Key: true, mimeType: true, filename: true, size: true },
+      orderBy: { createdAt: "desc" },
+      take: TEXT_EXTRACTION_BATCH_SIZE,
+    });
+
+    for (const attachment of pending) {
+      // Extracting a large PDF or spreadsheet takes a while; stop before it could overrun the deadline
+      if (deadline !== undefined && Date.now() > deadline - TEXT_EXTRACTION_RESERVE) {
+        console.log(`⏰ Leaving text extraction of remaining attachments to a later sync`);
+        return;
+      }
+
+      if (!canExtractAttachmentText(attachment.mimeType, attachment.filename, attachment.size)) {
+        await indexAttachmentText(attachment.id, null);
+        continue;
+      }
+
+      // A failed download is retried by a later sync instead of being recorded as having no text
+      const content = await getFromS3AsBuffer(attachment.s3Key);
+      if (content) {
+        await this.indexAttachmentContent(attachment.id, content, attachment.mimeType, attachment.filename);
+      }
+    }
   }
 
   private async syncThreadLabels(threadId: string, labelIds: string[]): Promise<void> {
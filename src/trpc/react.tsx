@@ -55,6 +55,8 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
           headers: () => {
             const headers = new Headers();
             headers.set("x-trpc-source", "nextjs-react");
+            // Lets the server resolve search dates in the user's timezone
+            headers.set("x-timezone-offset", String(new Date().getTimezoneOffset()));
             return headers;
           },
         }),